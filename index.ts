@@ -1,5 +1,7 @@
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import { createFlawedAvatarService } from "./src/service.js";
+import { registerAvatarCommands } from "./src/commands.js";
+import { registerAvatarTools } from "./src/tools.js";
 
 const plugin = {
 	id: "flawed-avatar",
@@ -8,24 +10,8 @@ const plugin = {
 	register(api: OpenClawPluginApi) {
 		const service = createFlawedAvatarService(api);
 		api.registerService(service);
-
-		api.registerCommand({
-			name: "flawed_show",
-			description: "Show the avatar overlay window",
-			handler: () => {
-				service.send({ type: "show" });
-				return { text: "Avatar shown" };
-			},
-		});
-
-		api.registerCommand({
-			name: "flawed_hide",
-			description: "Hide the avatar overlay window",
-			handler: () => {
-				service.send({ type: "hide" });
-				return { text: "Avatar hidden" };
-			},
-		});
+		registerAvatarCommands(api, service);
+		registerAvatarTools(api, service);
 	},
 };
 
@@ -0,0 +1,30 @@
+// Fails the build when tearing down a gateway socket that is still CONNECTING crashes the process.
+// The server accepts TCP and never answers, the way an unreachable or slow gateway leaves us hanging.
+import { createServer } from "node:net";
+import { createGatewayClient } from "../dist/main/main/gateway-client.js";
+
+const server = createServer(() => {}).listen(0, "127.0.0.1");
+await new Promise((resolve) => server.once("listening", resolve));
+const gatewayUrl = `ws://127.0.0.1:${server.address().port}`;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const cases = {
+	destroy: (gw) => gw.destroy(),
+	setGatewayUrl: (gw) => gw.setGatewayUrl(`${gatewayUrl}/`),
+};
+
+for (const [name, tearDown] of Object.entries(cases)) {
+	const gw = createGatewayClient({ gatewayUrl, onStateChange() {}, onSessionChange() {} });
+	await sleep(100);
+	if (gw.getStatus().state !== "connecting") {
+		console.error(`check-gateway-teardown: ${name}: expected a socket still connecting, got "${gw.getStatus().state}"`);
+		process.exit(1);
+	}
+	// An unhandled "error" event ends the process here instead of reaching the next case
+	tearDown(gw);
+	await sleep(100);
+	gw.destroy();
+}
+
+server.close();
@@ -0,0 +1,15 @@
+// Fails the build when the last sentence of a finished reply isn't scored for tone.
+// It has no whitespace after it, so only the final pass over the complete text can take it.
+import { createSentimentClassifier, takeCompletedSentences } from "../dist/renderer/renderer/avatar/sentiment.js";
+
+const reply = "Sorry, that failed.";
+const sentiment = createSentimentClassifier();
+
+const streaming = takeCompletedSentences(reply, 0);
+const finished = takeCompletedSentences(reply, streaming.consumed, { final: true });
+const moods = finished.sentences.map((sentence) => sentiment.classify(sentence)?.expression ?? null);
+
+if (streaming.sentences.length !== 0 || moods.length !== 1 || moods[0] !== "sad") {
+	console.error(`check-sentiment: "${reply}" scored ${JSON.stringify({ streaming: streaming.sentences, final: moods })}, expected one sad sentence at the end`);
+	process.exit(1);
+}
@@ -0,0 +1,29 @@
+// Fails the build when a built-in tool activity names a clip that isn't bundled.
+// Matches clip names the way the renderer's findClip does: file name without .fbx, any phase, any case.
+import { readdirSync } from "node:fs";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { DEFAULT_TOOL_ACTIVITIES } from "../dist/main/main/tool-activities.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const animationsDir = join(__dirname, "..", "assets", "animations");
+
+const bundled = new Set();
+for (const phase of readdirSync(animationsDir, { withFileTypes: true })) {
+	if (!phase.isDirectory()) continue;
+	for (const file of readdirSync(join(animationsDir, phase.name))) {
+		if (!file.toLowerCase().endsWith(".fbx")) continue;
+		const name = file.slice(0, -".fbx".length).toLowerCase();
+		bundled.add(name);
+		bundled.add(`${phase.name.toLowerCase()}/${name}`);
+	}
+}
+
+const missing = DEFAULT_TOOL_ACTIVITIES
+	.filter((rule) => rule.clip && !bundled.has(rule.clip.toLowerCase()))
+	.map((rule) => `"${rule.clip}" (${rule.caption})`);
+
+if (missing.length > 0) {
+	console.error(`check-tool-clips: built-in tool activities name clips missing from assets/animations: ${missing.join(", ")}`);
+	process.exit(1);
+}
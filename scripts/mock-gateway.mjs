@@ -0,0 +1,348 @@
+#!/usr/bin/env node
+
+// Minimal OpenClaw gateway (protocol v3) for developing the avatar without a real agent.
+//
+//   node scripts/mock-gateway.mjs [--port=18789] [--token=secret] [--scenarios=dir] [--autoplay=name]
+//                                 [--pair-after=10] [--history=120]
+//
+// Chat messages are echoed back as streamed assistant text. A message that
+// exactly names a scenario file (e.g. "tool" for mock-scenarios/tool.json)
+// plays that scenario instead. Every connected client also gets the message
+// as a "chat" event, so two overlays (or an overlay and wscat) see each other's turns.
+// Turns are kept as the session transcript for chat.history; --history seeds
+// it with that many older messages to page through.
+//
+// With --pair-after, devices must pair first: their connects fail with
+// NOT_PAIRED until the given number of seconds after the first attempt, then
+// the hello carries a device token that later connects may present instead.
+
+import { WebSocketServer } from "ws";
+import { randomUUID } from "node:crypto";
+import { readFileSync, readdirSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const PROTOCOL_VERSION = 3;
+const SESSION_KEY = "agent:main:main";
+const WORDS_PER_DELTA = 2;
+const DELTA_INTERVAL_MS = 90;
+
+function getArg(prefix) {
+	const arg = process.argv.find((a) => a.startsWith(prefix));
+	return arg ? arg.slice(prefix.length) : undefined;
+}
+
+const port = Number(getArg("--port=") ?? 18789);
+const requiredToken = getArg("--token=");
+const scenarioDir = resolve(getArg("--scenarios=") ?? join(__dirname, "mock-scenarios"));
+const autoplay = getArg("--autoplay=");
+const pairAfterArg = getArg("--pair-after=");
+const pairAfterMs = pairAfterArg === undefined ? null : Number(pairAfterArg) * 1000;
+const seedHistory = Number(getArg("--history=") ?? 0);
+
+// Pairing state survives reconnects: deviceId -> { requestId, approveAt, token }
+const devices = new Map();
+
+// Authenticated connections, for events every client sees
+const clients = new Set();
+
+// Session transcripts for chat.history: sessionKey -> messages, oldest first
+const transcripts = new Map();
+
+function transcriptOf(sessionKey) {
+	let messages = transcripts.get(sessionKey);
+	if (!messages) {
+		messages = [];
+		transcripts.set(sessionKey, messages);
+	}
+	return messages;
+}
+
+function recordTurn(sessionKey, role, text, timestamp = Date.now()) {
+	transcriptOf(sessionKey).push({ id: randomUUID(), role, content: [{ type: "text", text }], timestamp });
+}
+
+// A minute apart, ending an hour ago
+for (let i = 0; i < seedHistory; i++) {
+	const at = Date.now() - 3_600_000 - (seedHistory - i) * 60_000;
+	recordTurn(SESSION_KEY, i % 2 === 0 ? "user" : "assistant", `Earlier message ${i + 1} of ${seedHistory}`, at);
+}
+
+/**
+ * Scenario file: { "steps": [...] } where each step is one of
+ *   { "lifecycle": "start" | "end" | "error" }
+ *   { "say": "text, {{input}} is the chat message" }   streamed as cumulative deltas
+ *   { "think": "text" }                                 reasoning, streamed as "thinking" events
+ *   { "tool": "name", "args": {}, "durationMs": 1200, "isError": false }
+ *   { "approval": { "command": "rm -rf build", "cwd": "/tmp" } }
+ *   { "error": "message" }                              agent error stream
+ *   { "event": "name", "payload": {} }                  any raw event frame
+ *   { "wait": 500 }
+ */
+function loadScenarios() {
+	const scenarios = new Map();
+	let files = [];
+	try {
+		files = readdirSync(scenarioDir).filter((f) => f.endsWith(".json"));
+	} catch {
+		console.warn(`mock-gateway: no scenarios in ${scenarioDir}`);
+	}
+	for (const file of files) {
+		try {
+			const parsed = JSON.parse(readFileSync(join(scenarioDir, file), "utf-8"));
+			if (!Array.isArray(parsed?.steps)) throw new Error("missing steps array");
+			scenarios.set(basename(file, ".json").toLowerCase(), parsed.steps);
+		} catch (err) {
+			console.warn(`mock-gateway: skipping scenario ${file}: ${err.message}`);
+		}
+	}
+	return scenarios;
+}
+
+const scenarios = loadScenarios();
+
+function echoSteps() {
+	return [
+		{ lifecycle: "start" },
+		{ wait: 600 },
+		{ say: "You said: {{input}}" },
+		{ lifecycle: "end" },
+	];
+}
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+function createConnection(socket) {
+	let authenticated = false;
+	let clientInfo = {};
+	const nonce = randomUUID();
+	// Runs that chat.abort should cut short, keyed by runId
+	const runs = new Map();
+
+	function send(frame) {
+		if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(frame));
+	}
+
+	function event(name, payload) {
+		send({ type: "event", event: name, payload });
+	}
+
+	function respond(id, payload) {
+		send({ type: "res", id, ok: true, payload });
+	}
+
+	function fail(id, code, message, details) {
+		send({ type: "res", id, ok: false, error: { code, message, details } });
+	}
+
+	/** Returns the hello auth block, or null after answering with NOT_PAIRED. */
+	function checkPairing(id, params) {
+		const deviceId = params.device?.id;
+		if (pairAfterMs === null || typeof deviceId !== "string") return {};
+		let device = devices.get(deviceId);
+		if (!device) {
+			device = { requestId: randomUUID().slice(0, 8), approveAt: Date.now() + pairAfterMs, token: randomUUID() };
+			devices.set(deviceId, device);
+			console.log(`mock-gateway: pairing request ${device.requestId} for ${deviceId.slice(0, 8)}…, approving in ${pairAfterMs / 1000}s`);
+		}
+		if (Date.now() < device.approveAt) {
+			fail(id, "NOT_PAIRED", "pairing required", { requestId: device.requestId });
+			return null;
+		}
+		if (params.auth?.token === device.token) return {};
+		return { auth: { deviceToken: device.token, role: params.role, scopes: params.scopes ?? [] } };
+	}
+
+	async function playRun(steps, input, sessionKey) {
+		const runId = randomUUID();
+		const run = { cancelled: false };
+		runs.set(runId, run);
+		let seq = 0;
+		let reply = "";
+		let thought = "";
+
+		const agent = (stream, data) => {
+			event("agent", { runId, seq: seq++, stream, ts: Date.now(), data, sessionKey });
+		};
+
+		try {
+			for (const step of steps) {
+				if (run.cancelled) return;
+				if (step.wait !== undefined) {
+					await sleep(step.wait);
+				} else if (step.lifecycle !== undefined) {
+					agent("lifecycle", { phase: step.lifecycle });
+				} else if (step.say !== undefined) {
+					const words = String(step.say).replaceAll("{{input}}", input).split(/(\s+)/);
+					// split() keeps the separators, so each word is two entries
+					for (let i = 0; i < words.length; i += WORDS_PER_DELTA * 2) {
+						if (run.cancelled) return;
+						reply += words.slice(i, i + WORDS_PER_DELTA * 2).join("");
+						agent("assistant", { text: reply });
+						await sleep(DELTA_INTERVAL_MS);
+					}
+				} else if (step.think !== undefined) {
+					const words = String(step.think).split(/(\s+)/);
+					// Reasoning stays cumulative across the run, unlike replies
+					if (thought) thought += "\n\n";
+					for (let i = 0; i < words.length; i += WORDS_PER_DELTA * 2) {
+						if (run.cancelled) return;
+						thought += words.slice(i, i + WORDS_PER_DELTA * 2).join("");
+						agent("thinking", { text: thought, delta: words.slice(i, i + WORDS_PER_DELTA * 2).join("") });
+						await sleep(DELTA_INTERVAL_MS);
+					}
+				} else if (step.tool !== undefined) {
+					// Text after a tool call starts a new cumulative reply
+					reply = "";
+					const toolCallId = randomUUID();
+					agent("tool", { phase: "start", name: step.tool, toolCallId, args: step.args ?? {} });
+					await sleep(step.durationMs ?? 1200);
+					if (run.cancelled) return;
+					agent("tool", { phase: "result", name: step.tool, toolCallId, isError: step.isError === true });
+				} else if (step.approval !== undefined) {
+					const now = Date.now();
+					event("exec.approval.requested", {
+						id: randomUUID(),
+						request: { ...step.approval, sessionKey },
+						createdAtMs: now,
+						expiresAtMs: now + (step.approval.timeoutMs ?? 120_000),
+					});
+				} else if (step.error !== undefined) {
+					agent("error", { message: String(step.error) });
+				} else if (step.event !== undefined) {
+					event(step.event, step.payload ?? {});
+				}
+			}
+			if (reply) recordTurn(sessionKey, "assistant", reply);
+		} finally {
+			runs.delete(runId);
+		}
+	}
+
+	function handleRequest(frame) {
+		const { id, method, params = {} } = frame;
+
+		if (method === "connect") {
+			const { minProtocol, maxProtocol } = params;
+			if (minProtocol > PROTOCOL_VERSION || maxProtocol < PROTOCOL_VERSION) {
+				fail(id, "protocol_mismatch", `server speaks protocol ${PROTOCOL_VERSION}`);
+				return;
+			}
+			const pairing = checkPairing(id, params);
+			if (!pairing) return;
+			// A paired device's own token stands in for the shared one
+			const deviceToken = devices.get(params.device?.id)?.token;
+			if (requiredToken && params.auth?.token !== requiredToken && params.auth?.token !== deviceToken) {
+				fail(id, "unauthorized", "invalid token");
+				return;
+			}
+			authenticated = true;
+			clientInfo = params.client ?? {};
+			clients.add(event);
+			console.log(`mock-gateway: ${clientInfo.displayName ?? "client"} connected`);
+			respond(id, { type: "hello-ok", protocol: PROTOCOL_VERSION, server: { version: "mock" }, ...pairing });
+			if (autoplay) {
+				const steps = scenarios.get(autoplay.toLowerCase());
+				if (steps) void playRun(steps, "", SESSION_KEY);
+				else console.warn(`mock-gateway: unknown autoplay scenario '${autoplay}'`);
+			}
+			return;
+		}
+
+		if (!authenticated) {
+			fail(id, "unauthorized", "connect first");
+			return;
+		}
+
+		switch (method) {
+			case "sessions.list":
+				respond(id, {
+					sessions: [{ key: SESSION_KEY, displayName: "Mock agent", updatedAt: Date.now() }],
+				});
+				return;
+
+			case "agents.list":
+				respond(id, { agents: [{ id: "main", name: "Mock agent" }] });
+				return;
+
+			case "chat.subscribe":
+				respond(id, { ok: true });
+				return;
+
+			case "chat.history": {
+				const sessionKey = typeof params.sessionKey === "string" ? params.sessionKey : SESSION_KEY;
+				const limit = Math.max(1, Math.min(Number(params.limit) || 200, 1000));
+				respond(id, { sessionKey, messages: transcriptOf(sessionKey).slice(-limit) });
+				return;
+			}
+
+			case "chat.send": {
+				const message = typeof params.message === "string" ? params.message : "";
+				const sessionKey = typeof params.sessionKey === "string" ? params.sessionKey : SESSION_KEY;
+				const idempotencyKey = typeof params.idempotencyKey === "string" ? params.idempotencyKey : randomUUID();
+				respond(id, { ok: true, runId: idempotencyKey });
+				recordTurn(sessionKey, "user", message);
+				// Sender included: it should recognize its own turn by the idempotency key
+				for (const notify of clients) {
+					notify("chat", {
+						runId: idempotencyKey,
+						sessionKey,
+						state: "final",
+						idempotencyKey,
+						message: { role: "user", content: [{ type: "text", text: message }], timestamp: Date.now() },
+						client: { id: clientInfo.id, displayName: clientInfo.displayName, mode: clientInfo.mode },
+					});
+				}
+				const steps = scenarios.get(message.trim().toLowerCase()) ?? echoSteps();
+				void playRun(steps, message, sessionKey);
+				return;
+			}
+
+			case "chat.abort": {
+				const run = runs.get(params.runId);
+				if (run) run.cancelled = true;
+				respond(id, { aborted: Boolean(run) });
+				return;
+			}
+
+			case "exec.approval.resolve":
+				respond(id, { ok: true });
+				event("exec.approval.resolved", { id: params.id, decision: params.decision });
+				return;
+
+			default:
+				fail(id, "unknown_method", `mock gateway does not implement ${method}`);
+		}
+	}
+
+	socket.on("message", (data) => {
+		let frame;
+		try {
+			frame = JSON.parse(data.toString());
+		} catch {
+			console.warn("mock-gateway: ignoring malformed frame");
+			return;
+		}
+		if (frame?.type === "req" && typeof frame.id === "string") handleRequest(frame);
+	});
+
+	socket.on("close", () => {
+		clients.delete(event);
+		for (const run of runs.values()) run.cancelled = true;
+	});
+
+	event("connect.challenge", { nonce, ts: Date.now() });
+}
+
+const server = new WebSocketServer({ host: "127.0.0.1", port });
+server.on("connection", createConnection);
+server.on("listening", () => {
+	const names = [...scenarios.keys()].join(", ") || "none";
+	console.log(`mock-gateway: listening on ws://127.0.0.1:${port} (scenarios: ${names})`);
+});
+server.on("error", (err) => {
+	console.error("mock-gateway:", err.message);
+	process.exit(1);
+});
@@ -0,0 +1,165 @@
+import * as path from "node:path";
+import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
+import type { FlawedAvatarService } from "./service.js";
+import type { AvatarRuntimeState } from "./shared/service-rpc.js";
+import type { SnapCorner, TtsEngine } from "./shared/types.js";
+import { SNAP_CORNERS } from "./shared/config.js";
+import { AVATAR_EXPRESSIONS, resolveExpression } from "./shared/emotion-tags.js";
+import { describeGatewayStatus } from "./shared/gateway-status.js";
+
+type CommandReply = { text: string };
+
+// "top-left", "top left", "tl" and "topLeft" all name the same corner
+const CORNER_ALIASES: Record<string, SnapCorner> = {
+	tl: "topLeft",
+	tr: "topRight",
+	bl: "bottomLeft",
+	br: "bottomRight",
+};
+
+function parseCorner(arg: string): SnapCorner | undefined {
+	const key = arg.toLowerCase().replace(/[\s_-]/g, "");
+	return CORNER_ALIASES[key] ?? SNAP_CORNERS.find((corner) => corner.toLowerCase() === key);
+}
+
+// "50", "50%" and "0.5" all mean half opacity
+function parseOpacity(arg: string): number | undefined {
+	const value = Number(arg.replace(/%$/, ""));
+	if (!arg || !Number.isFinite(value) || value < 0) return undefined;
+	return arg.endsWith("%") || value > 1 ? value / 100 : value;
+}
+
+function describeState(state: AvatarRuntimeState): string {
+	const tts = state.tts.enabled
+		? `on (${state.tts.engine}${state.tts.voice ? `, ${state.tts.voice}` : ""})`
+		: "off";
+	return [
+		`Avatar: ${state.visible ? "visible" : "hidden"}${state.chatVisible ? ", chat open" : ""}`,
+		`Agent: ${state.phase}${state.sessionKey ? ` (${state.sessionKey})` : ""}`,
+		`Gateway: ${describeGatewayStatus(state.gateway)}`,
+		`Model: ${state.vrmPath ? path.basename(state.vrmPath, path.extname(state.vrmPath)) : "loading"}`,
+		`Rendering: ${state.fps !== null ? `${state.fps} fps` : "no frames yet"}, opacity ${Math.round(state.opacity * 100)}%`,
+		`Speech: ${tts}`,
+	].join("\n");
+}
+
+/** Slash commands that drive the running avatar through the service's RPC link. */
+export function registerAvatarCommands(api: OpenClawPluginApi, service: FlawedAvatarService): void {
+	function command(
+		name: string,
+		description: string,
+		run: (args: string) => Promise<CommandReply>,
+	): void {
+		api.registerCommand({
+			name,
+			description,
+			acceptsArgs: true,
+			handler: async (ctx: { args?: string }) => {
+				try {
+					return await run(ctx.args?.trim() ?? "");
+				} catch (err) {
+					return { text: `Avatar: ${(err as Error).message}` };
+				}
+			},
+		});
+	}
+
+	command("flawed_show", "Show the avatar overlay window", async () => {
+		const state = await service.request("show");
+		return { text: state.visible ? "Avatar shown" : "Avatar could not be shown" };
+	});
+
+	command("flawed_hide", "Hide the avatar overlay window", async () => {
+		const state = await service.request("hide");
+		return { text: state.visible ? "Avatar could not be hidden" : "Avatar hidden" };
+	});
+
+	command("flawed_status", "Show the avatar's session, phase, model, frame rate and gateway status", async () => {
+		return { text: describeState(await service.request("getState")) };
+	});
+
+	command("flawed_model", "Switch the avatar model: /flawed_model <name|path.vrm>, or list models", async (args) => {
+		if (!args) {
+			const models = await service.request("listModels");
+			if (models.length === 0) return { text: "No models in the library; pass a .vrm path instead" };
+			return { text: `Models: ${models.map((m) => m.name).join(", ")}` };
+		}
+		const { vrmPath } = await service.request("switchModel", { model: args });
+		return { text: `Switched model to ${path.basename(vrmPath)}` };
+	});
+
+	command("flawed_expression", "Set the avatar's expression: /flawed_expression <name> [seconds]", async (args) => {
+		const [name = "", seconds] = args.split(/\s+/);
+		const expression = resolveExpression(name);
+		if (!expression) return { text: `Expressions: ${AVATAR_EXPRESSIONS.join(", ")}` };
+		const holdSeconds = seconds === undefined ? undefined : Number(seconds);
+		if (holdSeconds !== undefined && !(holdSeconds > 0)) return { text: "Seconds must be a positive number" };
+		await service.request("setExpression", {
+			expression,
+			holdMs: holdSeconds === undefined ? undefined : holdSeconds * 1000,
+		});
+		return { text: `Expression set to ${expression}` };
+	});
+
+	command("flawed_gesture", "Play an animation clip: /flawed_gesture <clip>, or list clips", async (args) => {
+		if (!args) {
+			const clips = (await service.request("getCapabilities")).gestures;
+			return { text: clips.length > 0 ? `Clips: ${clips.join(", ")}` : "No animation clips loaded" };
+		}
+		await service.request("playGesture", { name: args });
+		return { text: `Playing ${args}` };
+	});
+
+	command("flawed_tts", "Turn speech on or off: /flawed_tts [on|off]", async (args) => {
+		const choice = args.toLowerCase();
+		let enabled: boolean;
+		if (choice === "on") enabled = true;
+		else if (choice === "off") enabled = false;
+		else if (!args) enabled = !(await service.request("getState")).tts.enabled;
+		else return { text: "Usage: /flawed_tts [on|off]" };
+		await service.request("setTts", { enabled });
+		return { text: `Speech ${enabled ? "on" : "off"}` };
+	});
+
+	command("flawed_voice", "Change the speech voice: /flawed_voice [web-speech|kokoro] <voice>", async (args) => {
+		const [first = "", ...rest] = args.split(/\s+/);
+		const engine = first === "web-speech" || first === "kokoro" ? first as TtsEngine : undefined;
+		const voice = (engine ? rest.join(" ") : args).trim();
+		if (!engine && !voice) return { text: "Usage: /flawed_voice [web-speech|kokoro] <voice>" };
+		const state = await service.request("setTts", { engine, voice: voice || undefined });
+		return { text: `Voice: ${state.tts.engine}${state.tts.voice ? `, ${state.tts.voice}` : ""}` };
+	});
+
+	command("flawed_say", "Have the avatar say something: /flawed_say <text>", async (args) => {
+		if (!args) return { text: "Usage: /flawed_say <text>" };
+		await service.request("say", { text: args });
+		return { text: "Speaking" };
+	});
+
+	command("flawed_snap", "Move the avatar to a screen corner: /flawed_snap <top-left|top-right|bottom-left|bottom-right>", async (args) => {
+		const corner = parseCorner(args);
+		if (!corner) return { text: "Usage: /flawed_snap <top-left|top-right|bottom-left|bottom-right>" };
+		await service.request("snapTo", { corner });
+		return { text: `Avatar moved to ${corner}` };
+	});
+
+	command("flawed_opacity", "Set the avatar's opacity: /flawed_opacity <percent>", async (args) => {
+		const opacity = parseOpacity(args);
+		if (opacity === undefined) return { text: "Usage: /flawed_opacity <percent>, e.g. 70%" };
+		const state = await service.request("setOpacity", { opacity });
+		return { text: `Opacity ${Math.round(state.opacity * 100)}%` };
+	});
+
+	command("flawed_crashes", "Show the last crash report and resume restarting the avatar", async () => {
+		const { report, path: reportPath } = service.getCrashReport();
+		// Re-arm first so the reply can say the avatar is on its way back
+		const resumed = service.rearm();
+		if (!report) {
+			return { text: resumed ? "Restarts resumed, starting the avatar" : "No crash report; the avatar hasn't crash-looped" };
+		}
+		const footer = resumed
+			? "Restarts resumed, starting the avatar."
+			: `Restarts are not paused. This report is from an earlier crash loop (${reportPath}).`;
+		return { text: `${report.trimEnd()}\n\n${footer}` };
+	});
+}
@@ -0,0 +1,121 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { resolveElectronBinary, resolveElectronMain } from "./electron-launcher.js";
+import { CRASH_REPORT_FILE } from "./shared/config.js";
+import { formatDuration } from "./shared/watchdog.js";
+
+export const CRASH_REPORT_PATH = path.join(os.homedir(), ".openclaw", CRASH_REPORT_FILE);
+
+/** An Electron run that ended without the service asking it to. */
+export type ElectronFailure = {
+	at: number;
+	code: number | null;
+	signal: NodeJS.Signals | null;
+	/** Set when Electron could not be started at all. */
+	error?: string;
+	uptimeMs: number;
+	/** Last lines Electron wrote to stderr. */
+	stderr: string[];
+};
+
+export interface CrashLoopBreaker {
+	/** Record a failure; returns true when it trips the breaker. */
+	record(failure: ElectronFailure): boolean;
+	isTripped(): boolean;
+	/** Failures inside the window, oldest first. */
+	failures(): ElectronFailure[];
+	reset(): void;
+}
+
+/** Trips once `maxFailures` runs fail within `windowMs` of each other. */
+export function createCrashLoopBreaker(options: { maxFailures: number; windowMs: number }): CrashLoopBreaker {
+	const { maxFailures, windowMs } = options;
+	let recent: ElectronFailure[] = [];
+	let tripped = false;
+
+	return {
+		record(failure) {
+			recent = recent.filter((f) => failure.at - f.at < windowMs);
+			recent.push(failure);
+			if (!tripped && recent.length >= maxFailures) tripped = true;
+			return tripped;
+		},
+
+		isTripped: () => tripped,
+
+		failures: () => [...recent],
+
+		reset() {
+			recent = [];
+			tripped = false;
+		},
+	};
+}
+
+function fileFact(label: string, resolve: () => string): string {
+	try {
+		const file = resolve();
+		return `${label}: ${file}${fs.existsSync(file) ? "" : " (missing)"}`;
+	} catch (err) {
+		return `${label}: not found (${(err as Error).message})`;
+	}
+}
+
+/** What usually explains a permanent failure: platform, display and the files we launch. */
+function describeEnvironment(pluginDir: string): string[] {
+	const env = (name: string) => `${name}: ${process.env[name] || "(unset)"}`;
+	return [
+		`platform: ${process.platform} ${process.arch} (${os.release()})`,
+		`node: ${process.version}`,
+		env("DISPLAY"),
+		env("WAYLAND_DISPLAY"),
+		env("XDG_SESSION_TYPE"),
+		`plugin: ${pluginDir}`,
+		fileFact("electron", () => resolveElectronBinary(pluginDir)),
+		fileFact("main entry", () => resolveElectronMain(pluginDir)),
+	];
+}
+
+function describeFailure(failure: ElectronFailure, index: number): string[] {
+	const how = failure.error
+		? `failed to start: ${failure.error}`
+		: `exited with ${failure.signal ? `signal ${failure.signal}` : `code ${failure.code}`} after ${formatDuration(failure.uptimeMs)}`;
+	const lines = [`#${index + 1} ${new Date(failure.at).toISOString()} ${how}`];
+	if (failure.stderr.length === 0) {
+		lines.push("   (no stderr output)");
+	} else {
+		lines.push("   stderr:", ...failure.stderr.map((line) => `     ${line}`));
+	}
+	return lines;
+}
+
+/** Write the report next to the other OpenClaw files; returns its path. */
+export function writeCrashReport(pluginDir: string, failures: ElectronFailure[], windowMs: number): string {
+	const text = [
+		"Flawed Avatar crash report",
+		`Written ${new Date().toISOString()} after ${failures.length} failed runs within ${Math.round(windowMs / 60_000)} minutes.`,
+		"Automatic restarts are paused. Fix the cause, then run /flawed_crashes to restart the avatar.",
+		"",
+		"Environment",
+		...describeEnvironment(pluginDir).map((line) => `  ${line}`),
+		"",
+		"Failures, oldest first",
+		...failures.flatMap((failure, i) => describeFailure(failure, i).map((line) => `  ${line}`)),
+		"",
+	].join("\n");
+
+	fs.mkdirSync(path.dirname(CRASH_REPORT_PATH), { recursive: true });
+	// stderr may mention local paths; keep it private like the rest of ~/.openclaw
+	fs.writeFileSync(CRASH_REPORT_PATH, text, { mode: 0o600 });
+	return CRASH_REPORT_PATH;
+}
+
+/** The last report written, or null when there is none. */
+export function readCrashReport(): string | null {
+	try {
+		return fs.readFileSync(CRASH_REPORT_PATH, "utf-8");
+	} catch {
+		return null;
+	}
+}
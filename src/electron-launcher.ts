@@ -1,5 +1,6 @@
 import * as path from "node:path";
 import { createRequire } from "node:module";
+import type { LaunchConfig } from "./shared/service-rpc.js";
 
 const WS_URL_RE = /^wss?:\/\//;
 
@@ -21,15 +22,16 @@ export function resolveElectronMain(pluginDir: string): string {
 
 /**
  * Build CLI arguments for the Electron child process.
+ * Secrets and agent config go through {@link buildLaunchConfig} instead:
+ * argv is readable by every user on the machine.
  */
 export function buildElectronArgs(opts: {
 	mainEntry: string;
 	gatewayUrl?: string;
 	vrmPath?: string;
-	agentConfigs?: string;
-	authToken?: string;
 }): string[] {
-	const args = [opts.mainEntry];
+	// Electron talks JSON-RPC on stdio and waits for the init frame before connecting
+	const args = [opts.mainEntry, "--stdio-rpc"];
 	if (opts.gatewayUrl) {
 		if (!WS_URL_RE.test(opts.gatewayUrl)) {
 			throw new Error(`Invalid gateway URL: must start with ws:// or wss://`);
@@ -43,9 +45,25 @@ export function buildElectronArgs(opts: {
 		}
 		args.push(`--vrm-path=${resolved}`);
 	}
-	if (opts.agentConfigs) {
-		// Validate JSON structure and reject prototype pollution keys
-		const parsed = JSON.parse(opts.agentConfigs);
+	return args;
+}
+
+/**
+ * Build the launch config sent to Electron in the `init` frame.
+ */
+export function buildLaunchConfig(opts: {
+	authToken?: string;
+	agentConfigs?: unknown;
+	toolActivities?: unknown;
+	watchdog?: unknown;
+}): LaunchConfig {
+	const config: LaunchConfig = {};
+	if (opts.authToken) {
+		config.authToken = opts.authToken;
+	}
+	if (opts.agentConfigs !== undefined) {
+		// Validate the outer structure and reject prototype pollution keys
+		const parsed = opts.agentConfigs;
 		if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
 			throw new Error("Invalid agentConfigs: must be a JSON object");
 		}
@@ -54,10 +72,20 @@ export function buildElectronArgs(opts: {
 				throw new Error(`Invalid agentConfigs: forbidden key '${key}'`);
 			}
 		}
-		args.push(`--agent-configs=${opts.agentConfigs}`);
+		config.agentConfigs = parsed;
 	}
-	if (opts.authToken) {
-		args.push(`--auth-token=${opts.authToken}`);
+	if (opts.toolActivities !== undefined) {
+		// Rules are validated individually in Electron; only the outer shape is checked here
+		if (!Array.isArray(opts.toolActivities)) {
+			throw new Error("Invalid toolActivities: must be a JSON array");
+		}
+		config.toolActivities = opts.toolActivities;
 	}
-	return args;
+	if (opts.watchdog !== undefined) {
+		if (typeof opts.watchdog !== "object" || opts.watchdog === null || Array.isArray(opts.watchdog)) {
+			throw new Error("Invalid watchdog: must be a JSON object");
+		}
+		config.watchdog = opts.watchdog;
+	}
+	return config;
 }
@@ -0,0 +1,48 @@
+import * as path from "node:path";
+import { z } from "zod";
+import {
+	LIGHTING_PROFILES,
+	SCALE_MIN,
+	SCALE_MAX,
+} from "../shared/config.js";
+
+const FORBIDDEN_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const absolutePath = z.string().refine(
+	(p) => path.isAbsolute(p) && !p.split(/[\\/]/).includes(".."),
+	{ message: "must be absolute with no '..' segments" },
+);
+
+/** Per-agent overrides from the plugin config, keyed by session key. */
+export const AgentConfigSchema = z.object({
+	vrmPath: absolutePath.optional(),
+	ttsEngine: z.enum(["web-speech", "kokoro"]).optional(),
+	ttsVoice: z.string().optional(),
+	scale: z.number().min(SCALE_MIN).max(SCALE_MAX).optional(),
+	lightingProfile: z.enum(LIGHTING_PROFILES).optional(),
+	framing: z.enum(["head", "upperBody", "fullBody"]).optional(),
+	animationsDir: absolutePath.optional(),
+});
+
+export type AgentConfig = z.infer<typeof AgentConfigSchema>;
+
+/**
+ * Validate per-agent configs from the launch config (with prototype pollution protection).
+ * Invalid entries are dropped individually so one typo doesn't disable all agents.
+ */
+export function parseAgentConfigs(parsed: unknown): Record<string, AgentConfig> | undefined {
+	if (parsed === undefined) return undefined;
+	if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return undefined;
+
+	const safe: Record<string, AgentConfig> = Object.create(null);
+	for (const [key, val] of Object.entries(parsed as Record<string, unknown>)) {
+		if (FORBIDDEN_KEYS.has(key)) continue;
+		const result = AgentConfigSchema.safeParse(val);
+		if (result.success) {
+			safe[key] = result.data;
+		} else {
+			console.warn(`flawed-avatar: ignoring invalid agent config for '${key}': ${result.error.issues[0]?.message ?? "invalid"}`);
+		}
+	}
+	return safe;
+}
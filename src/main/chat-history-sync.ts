@@ -0,0 +1,75 @@
+import { CHAT_HISTORY_FETCH_MAX, CHAT_HISTORY_PAGE_SIZE } from "../shared/config.js";
+import type { ChatHistoryPage } from "../shared/types.js";
+import type { GatewayClient, GatewayRequestError } from "./gateway-client.js";
+import { getSessionMessages, mergeChatMessages, mergeTranscript } from "./persistence/index.js";
+
+export interface ChatHistorySync {
+	/** Fetch the session's latest transcript, fold it into the local history and report the result. */
+	sync(sessionKey: string): Promise<void>;
+	/** The page of messages before `before`, from the gateway when it answers, else from local history. */
+	loadOlder(sessionKey: string, before: number): Promise<ChatHistoryPage>;
+}
+
+function logFailure(err: GatewayRequestError): void {
+	// Disconnected (or replaying): local history stands in until the next connect
+	if (err.kind === "disconnected") return;
+	console.warn(`flawed-avatar: chat.history failed (${err.message}), showing local history`);
+}
+
+/**
+ * Keeps the local chat cache in line with the gateway's session transcript.
+ * chat.history only returns the latest messages, so paging back asks for a
+ * longer tail each time and keeps the part before the oldest one shown.
+ */
+export function createChatHistorySync(options: {
+	gw: Pick<GatewayClient, "fetchHistory">;
+	/** A sync finished; `page` is the session's latest messages after merging. */
+	onSynced: (page: ChatHistoryPage) => void;
+}): ChatHistorySync {
+	const { gw, onSynced } = options;
+	// How long a tail of each session's transcript has been fetched
+	const fetchedLimits = new Map<string, number>();
+	let syncing: string | null = null;
+
+	return {
+		async sync(sessionKey) {
+			if (syncing === sessionKey) return;
+			syncing = sessionKey;
+			try {
+				const transcript = await gw.fetchHistory(sessionKey, CHAT_HISTORY_PAGE_SIZE);
+				fetchedLimits.set(sessionKey, CHAT_HISTORY_PAGE_SIZE);
+				mergeTranscript(sessionKey, transcript);
+				const messages = getSessionMessages(sessionKey, CHAT_HISTORY_PAGE_SIZE + 1);
+				onSynced({
+					sessionKey,
+					messages: messages.slice(-CHAT_HISTORY_PAGE_SIZE),
+					hasMore: messages.length > CHAT_HISTORY_PAGE_SIZE || transcript.length >= CHAT_HISTORY_PAGE_SIZE,
+				});
+			} catch (err) {
+				logFailure(err as GatewayRequestError);
+			} finally {
+				if (syncing === sessionKey) syncing = null;
+			}
+		},
+
+		async loadOlder(sessionKey, before) {
+			const local = getSessionMessages(sessionKey, CHAT_HISTORY_PAGE_SIZE + 1, before);
+			let older = local;
+			let gatewayHasMore = false;
+			const limit = Math.min((fetchedLimits.get(sessionKey) ?? 0) + CHAT_HISTORY_PAGE_SIZE, CHAT_HISTORY_FETCH_MAX);
+			try {
+				const transcript = await gw.fetchHistory(sessionKey, limit);
+				fetchedLimits.set(sessionKey, limit);
+				older = mergeChatMessages(local, sessionKey, transcript.filter((m) => m.timestamp < before));
+				gatewayHasMore = transcript.length >= limit && limit < CHAT_HISTORY_FETCH_MAX;
+			} catch (err) {
+				logFailure(err as GatewayRequestError);
+			}
+			return {
+				sessionKey,
+				messages: older.slice(-CHAT_HISTORY_PAGE_SIZE),
+				hasMore: older.length > CHAT_HISTORY_PAGE_SIZE || gatewayHasMore,
+			};
+		},
+	};
+}
@@ -3,6 +3,7 @@ const { contextBridge, ipcRenderer } = require("electron");
 const IPC = {
 	AGENT_STATE: "avatar:agent-state",
 	SEND_CHAT: "avatar:send-chat",
+	ABORT_RUN: "avatar:abort-run",
 	SET_IGNORE_MOUSE_CHAT: "chat:set-ignore-mouse",
 	CHAT_CONTENT_HIDDEN: "chat:content-hidden",
 	CHAT_CONTENT_SHOWN: "chat:content-shown",
@@ -12,10 +13,27 @@ const IPC = {
 	APPEND_CHAT_MESSAGE: "chat:append-message",
 	CLEAR_CHAT_HISTORY: "chat:clear-history",
 	CHAT_HISTORY_CLEARED: "chat:history-cleared",
+	CHAT_HISTORY_SYNCED: "chat:history-synced",
+	LOAD_OLDER_MESSAGES: "chat:load-older-messages",
+	// User turns from other clients
+	CHAT_TURN: "chat:turn",
 	// Idle timeout
 	GET_IDLE_TIMEOUT: "chat:get-idle-timeout",
 	SET_IDLE_TIMEOUT: "chat:set-idle-timeout",
 	IDLE_TIMEOUT_CHANGED: "chat:idle-timeout-changed",
+	// Gateway sessions
+	GET_SESSIONS: "chat:get-sessions",
+	SESSIONS_CHANGED: "chat:sessions-changed",
+	SET_SESSION_FOLLOW: "chat:set-session-follow",
+	REFRESH_SESSIONS: "chat:refresh-sessions",
+	// Gateway connection status
+	GATEWAY_STATUS: "gateway:status",
+	GET_GATEWAY_STATUS: "gateway:get-status",
+	RETRY_GATEWAY: "gateway:retry",
+	// Exec approvals
+	GET_APPROVALS: "chat:get-approvals",
+	APPROVALS_CHANGED: "chat:approvals-changed",
+	RESOLVE_APPROVAL: "chat:resolve-approval",
 };
 
 contextBridge.exposeInMainWorld("chatBridge", {
@@ -27,7 +45,11 @@ contextBridge.exposeInMainWorld("chatBridge", {
 	},
 
 	sendChat(text) {
-		ipcRenderer.send(IPC.SEND_CHAT, text);
+		return ipcRenderer.invoke(IPC.SEND_CHAT, text);
+	},
+
+	abortRun(runId) {
+		return ipcRenderer.invoke(IPC.ABORT_RUN, runId);
 	},
 
 	setIgnoreMouseEvents(ignore) {
@@ -69,6 +91,24 @@ contextBridge.exposeInMainWorld("chatBridge", {
 		});
 	},
 
+	onChatHistorySynced(callback) {
+		ipcRenderer.removeAllListeners(IPC.CHAT_HISTORY_SYNCED);
+		ipcRenderer.on(IPC.CHAT_HISTORY_SYNCED, (_event, page) => {
+			callback(page);
+		});
+	},
+
+	loadOlderMessages(before) {
+		return ipcRenderer.invoke(IPC.LOAD_OLDER_MESSAGES, before);
+	},
+
+	onChatTurn(callback) {
+		ipcRenderer.removeAllListeners(IPC.CHAT_TURN);
+		ipcRenderer.on(IPC.CHAT_TURN, (_event, turn) => {
+			callback(turn);
+		});
+	},
+
 	// Idle timeout
 	getIdleTimeout() {
 		return ipcRenderer.invoke(IPC.GET_IDLE_TIMEOUT);
@@ -84,4 +124,56 @@ contextBridge.exposeInMainWorld("chatBridge", {
 			callback(ms);
 		});
 	},
+
+	// Gateway sessions
+	getSessions() {
+		return ipcRenderer.invoke(IPC.GET_SESSIONS);
+	},
+
+	onSessionsChanged(callback) {
+		ipcRenderer.removeAllListeners(IPC.SESSIONS_CHANGED);
+		ipcRenderer.on(IPC.SESSIONS_CHANGED, (_event, snapshot) => {
+			callback(snapshot);
+		});
+	},
+
+	setSessionFollow(follow) {
+		ipcRenderer.send(IPC.SET_SESSION_FOLLOW, follow);
+	},
+
+	refreshSessions() {
+		ipcRenderer.send(IPC.REFRESH_SESSIONS);
+	},
+
+	// Gateway connection status
+	getGatewayStatus() {
+		return ipcRenderer.invoke(IPC.GET_GATEWAY_STATUS);
+	},
+
+	onGatewayStatus(callback) {
+		ipcRenderer.removeAllListeners(IPC.GATEWAY_STATUS);
+		ipcRenderer.on(IPC.GATEWAY_STATUS, (_event, status) => {
+			callback(status);
+		});
+	},
+
+	retryGateway() {
+		ipcRenderer.send(IPC.RETRY_GATEWAY);
+	},
+
+	// Exec approvals
+	getApprovals() {
+		return ipcRenderer.invoke(IPC.GET_APPROVALS);
+	},
+
+	onApprovalsChanged(callback) {
+		ipcRenderer.removeAllListeners(IPC.APPROVALS_CHANGED);
+		ipcRenderer.on(IPC.APPROVALS_CHANGED, (_event, approvals) => {
+			callback(approvals);
+		});
+	},
+
+	resolveApproval(id, decision) {
+		return ipcRenderer.invoke(IPC.RESOLVE_APPROVAL, id, decision);
+	},
 });
@@ -53,10 +53,68 @@ export function loadDeviceIdentity(): DeviceIdentity | null {
 	return null;
 }
 
-export function loadStoredAuthToken(deviceId: string, role: string): string | null {
+function writePrivateFile(filePath: string, data: unknown): void {
+	fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+	// Write-then-rename so a crash never leaves a half-written key file behind
+	const tmpPath = `${filePath}.${process.pid}.tmp`;
+	fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2) + "\n", { mode: 0o600 });
+	fs.renameSync(tmpPath, filePath);
+	// renameSync keeps the tmp file's mode, but an older file may have been looser
 	try {
-		if (!fs.existsSync(DEVICE_AUTH_FILE)) return null;
-		const raw = fs.readFileSync(DEVICE_AUTH_FILE, "utf8");
+		fs.chmodSync(filePath, 0o600);
+	} catch {
+		// Not supported on every platform (e.g. Windows)
+	}
+}
+
+/**
+ * Load the device identity, generating and saving a new Ed25519 one when
+ * none exists. The identity directory is shared with the OpenClaw CLI, so an
+ * existing but unreadable device.json is left alone rather than replaced.
+ */
+export function loadOrCreateDeviceIdentity(): DeviceIdentity | null {
+	const existing = loadDeviceIdentity();
+	if (existing) return existing;
+	if (fs.existsSync(DEVICE_FILE)) {
+		console.warn(`flawed-avatar: ${DEVICE_FILE} is not a valid v1 identity; connecting without device auth`);
+		return null;
+	}
+
+	try {
+		const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+		const publicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+		const privateKeyPem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+		const deviceId = crypto.createHash("sha256").update(derivePublicKeyRaw(publicKeyPem)).digest("hex");
+		writePrivateFile(DEVICE_FILE, {
+			version: 1,
+			deviceId,
+			publicKeyPem,
+			privateKeyPem,
+			createdAtMs: Date.now(),
+		});
+		console.log(`flawed-avatar: created device identity ${deviceId.slice(0, 8)}… in ${DEVICE_FILE}`);
+		return { deviceId, publicKeyPem, privateKeyPem };
+	} catch (err) {
+		console.error("flawed-avatar: failed to create device identity:", (err as Error).message);
+		return null;
+	}
+}
+
+/**
+ * Tokens from the built-in gateway live in the file shared with the OpenClaw CLI;
+ * every other gateway (`scope` is its URL) gets a file of its own.
+ */
+function deviceAuthFile(scope: string | undefined): string {
+	if (!scope) return DEVICE_AUTH_FILE;
+	const hash = crypto.createHash("sha256").update(scope).digest("hex").slice(0, 16);
+	return path.join(IDENTITY_DIR, `flawed-avatar-device-auth-${hash}.json`);
+}
+
+export function loadStoredAuthToken(deviceId: string, role: string, scope?: string): string | null {
+	const filePath = deviceAuthFile(scope);
+	try {
+		if (!fs.existsSync(filePath)) return null;
+		const raw = fs.readFileSync(filePath, "utf8");
 		const parsed = JSON.parse(raw);
 		if (parsed?.version !== 1 || parsed.deviceId !== deviceId) return null;
 		if (!parsed.tokens || typeof parsed.tokens !== "object") return null;
@@ -68,6 +126,27 @@ export function loadStoredAuthToken(deviceId: string, role: string): string | nu
 	}
 }
 
+/** Save the device token the gateway issued after pairing, keeping tokens for other roles. */
+export function storeDeviceAuthToken(deviceId: string, role: string, token: string, scopes: string[], scope?: string): void {
+	const filePath = deviceAuthFile(scope);
+	let tokens: Record<string, unknown> = {};
+	try {
+		const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+		// Tokens issued to a previous identity are useless to this one
+		if (parsed?.version === 1 && parsed.deviceId === deviceId && parsed.tokens && typeof parsed.tokens === "object") {
+			tokens = parsed.tokens;
+		}
+	} catch {
+		// Missing or corrupt; start fresh
+	}
+	tokens[role.trim()] = { token, role: role.trim(), scopes, updatedAtMs: Date.now() };
+	try {
+		writePrivateFile(filePath, { version: 1, deviceId, tokens });
+	} catch (err) {
+		console.error("flawed-avatar: failed to store device token:", (err as Error).message);
+	}
+}
+
 export function signPayload(privateKeyPem: string, payload: string): string {
 	const key = crypto.createPrivateKey(privateKeyPem);
 	return base64UrlEncode(crypto.sign(null, Buffer.from(payload, "utf8"), key) as Buffer);
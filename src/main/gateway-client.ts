@@ -1,12 +1,38 @@
 import WebSocket from "ws";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { fileURLToPath } from "node:url";
-import { GATEWAY_RECONNECT_BASE_MS, GATEWAY_RECONNECT_MAX_MS } from "../shared/config.js";
-import type { AgentState } from "../shared/types.js";
+import {
+	GATEWAY_PAIRING_RETRY_MS,
+	GATEWAY_RECONNECT_BASE_MS,
+	GATEWAY_RECONNECT_MAX_MS,
+	GATEWAY_REQUEST_TIMEOUT_MS,
+} from "../shared/config.js";
+import type {
+	AgentState,
+	AvatarExpression,
+	ApprovalDecision,
+	ApprovalRequest,
+	GatewayStatus,
+	RemoteChatTurn,
+	SessionFollow,
+	SessionInfo,
+	ToolActivity,
+	ToolState,
+	TranscriptMessage,
+} from "../shared/types.js";
 import type { DeviceIdentity } from "./device-identity.js";
-import { loadStoredAuthToken, buildAuthPayload, signPayload, publicKeyToBase64Url } from "./device-identity.js";
+import { createGatewayRecorder, createGatewayReplay, type GatewayReplay } from "./gateway-recorder.js";
+import { parseEmotionTags } from "../shared/emotion-tags.js";
+import { canRetryGateway } from "../shared/gateway-status.js";
+import {
+	loadStoredAuthToken,
+	storeDeviceAuthToken,
+	buildAuthPayload,
+	signPayload,
+	publicKeyToBase64Url,
+} from "./device-identity.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -21,6 +47,29 @@ const PKG_VERSION: string = (() => {
 
 const PROTOCOL_VERSION = 3;
 
+// WebSocket close code the gateway uses when it rejects credentials
+const CLOSE_POLICY_VIOLATION = 1008;
+
+// How many aborted run ids to remember for dropping trailing events
+const ABORTED_RUNS_MAX = 32;
+
+// Agent error messages are cut to this length for the chat card and notification
+const AGENT_ERROR_MAX = 500;
+
+// Reasoning kept per run; the head is dropped so long chains of thought stay cheap to resend
+const REASONING_MAX_CHARS = 20_000;
+
+// How many user-turn idempotency keys to remember for dropping echoes
+const CHAT_TURN_KEYS_MAX = 64;
+const CHAT_SOURCE_MAX = 60;
+
+// Connect error code for a device the operator hasn't approved yet
+const NOT_PAIRED_CODE = "NOT_PAIRED";
+
+// Argument keys worth showing in a tool card, most descriptive first
+const TOOL_ARG_SUMMARY_KEYS = ["command", "query", "url", "path", "file_path", "pattern", "action"];
+const TOOL_ARG_SUMMARY_MAX = 80;
+
 type AgentEventPayload = {
 	runId: string;
 	seq: number;
@@ -30,6 +79,112 @@ type AgentEventPayload = {
 	sessionKey?: string;
 };
 
+/** Data of a `stream: "tool"` agent event. */
+type ToolEventData = {
+	phase?: string;
+	name?: string;
+	toolCallId?: string;
+	args?: unknown;
+	isError?: boolean;
+};
+
+/** The error text of a lifecycle or error-stream event, in whichever field the gateway used. */
+function describeAgentError(data: Record<string, unknown> | undefined): string {
+	const raw = data?.error ?? data?.message;
+	const nested = typeof raw === "object" && raw !== null ? (raw as { message?: unknown }).message : raw;
+	const text = typeof nested === "string" ? nested.trim() : "";
+	if (!text) return "The agent run failed";
+	return text.length > AGENT_ERROR_MAX ? `${text.slice(0, AGENT_ERROR_MAX - 1)}…` : text;
+}
+
+/** Pick the most descriptive string argument and trim it to one short line. */
+function summarizeToolArgs(args: unknown): string | undefined {
+	if (typeof args !== "object" || args === null) return undefined;
+	const record = args as Record<string, unknown>;
+	for (const key of TOOL_ARG_SUMMARY_KEYS) {
+		const value = record[key];
+		if (typeof value !== "string" || value.trim().length === 0) continue;
+		const line = value.trim().replace(/\s+/g, " ");
+		return line.length > TOOL_ARG_SUMMARY_MAX ? `${line.slice(0, TOOL_ARG_SUMMARY_MAX - 1)}…` : line;
+	}
+	return undefined;
+}
+
+/** Payload of a "chat" event (only the parts we read). */
+type ChatEventPayload = {
+	runId?: string;
+	sessionKey?: string;
+	state?: string;
+	idempotencyKey?: string;
+	message?: {
+		role?: string;
+		/** Plain text, or content blocks of which the text ones are shown. */
+		content?: unknown;
+		timestamp?: number;
+	};
+	/** The client that sent a user turn, when the gateway reports it. */
+	client?: { id?: string; displayName?: string; mode?: string };
+};
+
+function chatMessageText(content: unknown): string {
+	if (typeof content === "string") return content.trim();
+	if (!Array.isArray(content)) return "";
+	return content
+		.map((block) => (block?.type === "text" && typeof block.text === "string" ? block.text : ""))
+		.join("")
+		.trim();
+}
+
+function describeChatClient(client: ChatEventPayload["client"]): string {
+	const name = client?.displayName ?? client?.id ?? client?.mode;
+	if (typeof name !== "string" || !name.trim()) return "another client";
+	return name.trim().slice(0, CHAT_SOURCE_MAX);
+}
+
+/** A chat.history entry (only the parts we read). */
+type HistoryEntry = {
+	id?: unknown;
+	role?: unknown;
+	content?: unknown;
+	timestamp?: unknown;
+};
+
+/** User and assistant text of a transcript, oldest first; tool calls and results are left out. */
+function parseHistoryEntries(sessionKey: string, entries: HistoryEntry[]): TranscriptMessage[] {
+	const messages: TranscriptMessage[] = [];
+	for (const entry of entries) {
+		if (entry?.role !== "user" && entry?.role !== "assistant") continue;
+		let text = chatMessageText(entry.content);
+		// Tags drive the face live; the transcript shows what was said
+		if (entry.role === "assistant") text = parseEmotionTags(text).text.trim();
+		if (!text) continue;
+		// Untimed entries sort with their predecessor
+		const timestamp = typeof entry.timestamp === "number" && entry.timestamp > 0
+			? entry.timestamp
+			: messages[messages.length - 1]?.timestamp;
+		if (timestamp === undefined) continue;
+		// Transcripts without entry ids still need a stable one to merge on
+		const id = typeof entry.id === "string" && entry.id
+			? entry.id
+			: createHash("sha256").update(`${sessionKey}\n${entry.role}\n${timestamp}\n${text}`).digest("hex").slice(0, 24);
+		messages.push({ id, timestamp, role: entry.role, text });
+	}
+	return messages;
+}
+
+type ApprovalRequestedPayload = {
+	id?: string;
+	request?: {
+		command?: string;
+		cwd?: string | null;
+		host?: string | null;
+		agentId?: string | null;
+		sessionKey?: string | null;
+	};
+	createdAtMs?: number;
+	expiresAtMs?: number;
+};
+
 type EventFrame = {
 	type: "event";
 	event: string;
@@ -42,22 +197,115 @@ type ResponseFrame = {
 	id: string;
 	ok: boolean;
 	payload?: unknown;
-	error?: { message?: string };
+	error?: { code?: string; message?: string; details?: unknown };
+};
+
+/** Payload of a successful connect response (only the parts we read). */
+type HelloPayload = {
+	auth?: { deviceToken?: unknown; role?: unknown; scopes?: unknown };
+};
+
+/**
+ * Why a gateway request failed: the gateway answered with an error,
+ * no answer arrived in time, or the socket went away first.
+ */
+export class GatewayRequestError extends Error {
+	constructor(
+		message: string,
+		readonly kind: "response" | "timeout" | "disconnected",
+		/** Gateway error code, for "response" errors. */
+		readonly code?: string,
+		readonly details?: unknown,
+	) {
+		super(message);
+		this.name = "GatewayRequestError";
+	}
+}
+
+export interface GatewayRequestOptions {
+	timeoutMs?: number;
+}
+
+type PendingRequest = {
+	resolve: (payload: unknown) => void;
+	reject: (err: Error) => void;
+	timer: ReturnType<typeof setTimeout>;
 };
 
+export interface GatewayClientOptions {
+	gatewayUrl: string;
+	onStateChange: (state: AgentState) => void;
+	/** Fired when the followed session changes. */
+	onSessionChange: (sessionKey: string) => void;
+	/** Fired when the list of known sessions changes. */
+	onSessionsChanged?: (sessions: SessionInfo[]) => void;
+	/** Fired on every connection state transition. */
+	onStatusChange?: (status: GatewayStatus) => void;
+	/** Fired when exec approval requests are added, resolved or expire. */
+	onApprovalsChanged?: (approvals: ApprovalRequest[]) => void;
+	/** Fired when another client sends a user message to a followed session. */
+	onChatTurn?: (turn: RemoteChatTurn) => void;
+	/** Map a tool name to its clip, expression and caption. */
+	describeTool?: (name: string) => ToolActivity | undefined;
+	authToken?: string;
+	deviceIdentity?: DeviceIdentity | null;
+	/** Keeps device tokens this gateway issues apart from the built-in gateway's. */
+	deviceTokenScope?: string;
+	/** Extra CA certificates and verification for wss:// gateways. */
+	tls?: { ca?: string[]; rejectUnauthorized?: boolean };
+	follow?: SessionFollow;
+	/** Append every received frame to this JSONL file. */
+	recordPath?: string;
+	/** Play frames from a recording instead of connecting to the gateway. */
+	replay?: { filePath: string; speed: number };
+}
+
+export interface GatewayClient {
+	destroy(): void;
+	/** Send a request once connected; resolves with the response payload. */
+	request<T = unknown>(method: string, params?: Record<string, unknown>, options?: GatewayRequestOptions): Promise<T>;
+	sendChat(text: string, sessionKey: string | null): Promise<void>;
+	/** The latest `limit` user and assistant messages of a session's transcript, oldest first. */
+	fetchHistory(sessionKey: string, limit: number): Promise<TranscriptMessage[]>;
+	/** Abort a run (default: the active one) and drop its remaining events. */
+	abortRun(runId?: string): Promise<void>;
+	getCurrentAgentId(): string | null;
+	/** Known sessions, most recently active first. */
+	getSessions(): SessionInfo[];
+	/** Re-request sessions.list / agents.list from the gateway. */
+	refreshSessions(): void;
+	setFollow(follow: SessionFollow): void;
+	getStatus(): GatewayStatus;
+	/** Exec approvals waiting for an operator decision, oldest first. */
+	getPendingApprovals(): ApprovalRequest[];
+	resolveApproval(id: string, decision: ApprovalDecision): Promise<void>;
+	/** Skip the reconnect backoff and connect immediately. */
+	retryNow(): void;
+	/** Drop the current connection and connect to a different gateway. */
+	setGatewayUrl(url: string): void;
+}
+
 /**
  * Lightweight gateway WebSocket client for the Electron main process.
- * Implements the minimal protocol v3 handshake (without device auth)
+ * Implements the protocol v3 handshake (with device auth and pairing)
  * and listens for "agent" event frames to drive avatar animations.
+ * Only sessions allowed by the follow mode drive the avatar.
  */
-export function createGatewayClient(
-	gatewayUrl: string,
-	onStateChange: (state: AgentState) => void,
-	onModelSwitch: (vrmPath: string) => void,
-	agentConfigs?: Record<string, { vrmPath?: string }>,
-	authToken?: string,
-	deviceIdentity?: DeviceIdentity | null,
-): { destroy: () => void; sendChat: (text: string, sessionKey: string | null) => void; getCurrentAgentId: () => string | null } {
+export function createGatewayClient(options: GatewayClientOptions): GatewayClient {
+	const {
+		onStateChange,
+		onSessionChange,
+		onSessionsChanged,
+		onStatusChange,
+		onApprovalsChanged,
+		onChatTurn,
+		describeTool,
+		authToken,
+		deviceIdentity,
+		deviceTokenScope,
+		tls,
+		replay,
+	} = options;
 	let ws: WebSocket | null = null;
 	let destroyed = false;
 	let backoffMs = GATEWAY_RECONNECT_BASE_MS;
@@ -65,38 +313,326 @@ export function createGatewayClient(
 	let connectNonce: string | null = null;
 	let connectSent = false;
 	let connectTimer: ReturnType<typeof setTimeout> | null = null;
+	let gatewayUrl = options.gatewayUrl;
+	// While replaying, status reports the recording instead of a gateway that isn't contacted
+	let statusUrl = replay ? `replay:${replay.filePath}` : gatewayUrl;
+	let status: GatewayStatus = { state: "connecting", gatewayUrl: statusUrl };
+	const recorder = options.recordPath ? createGatewayRecorder(options.recordPath) : null;
+	let replaySource: GatewayReplay | null = null;
+	let lastError: string | undefined;
+	// Set while the gateway waits for the operator to approve this device
+	let pairingRequestId: string | undefined;
 	let currentSessionKey: string | null = null;
-	// Track pending request IDs to match responses
-	let sessionsListRequestId: string | null = null;
-	let agentsListRequestId: string | null = null;
-	// Track if we've completed initial connection setup
-	let connectionSetupDone = false;
+	// In-flight requests keyed by frame id
+	const pending = new Map<string, PendingRequest>();
+	// Run currently driving the avatar, and runs the user aborted
+	let activeRun: { runId: string; sessionKey?: string } | null = null;
+	const abortedRunIds = new Set<string>();
+	// Run whose failure was already reported; a trailing lifecycle error or end adds nothing
+	let failedRunId: string | null = null;
+	// Idempotency keys of user turns already in the transcript: our own sends, and others' we showed
+	const chatTurnKeys = new Set<string>();
+	// Session whose chat events we asked for; chat.subscribe is skipped once the gateway rejects it
+	let chatSubscription: string | null = null;
+	let chatSubscribeSupported = true;
+	// Tool calls of the active run, keyed by call id (or name when the gateway sends none)
+	const runningTools = new Map<string, ToolState>();
+	// Emotion tags already acted on in the current reply (assistant text arrives cumulatively)
+	let replyCuesSeen = 0;
+	let replyExpression: AvatarExpression | undefined;
+	// Latest cumulative reply text as received, its run, and what was shown of it while streaming
+	let replyRaw: { raw: string; runId: string; shown: string } | null = null;
+	// Reasoning text of the active run
+	let runReasoning = "";
+	// Exec approvals awaiting a decision, with their expiry timers
+	const approvals = new Map<string, { request: ApprovalRequest; expiryTimer: ReturnType<typeof setTimeout> | null }>();
+	let follow: SessionFollow = options.follow ?? { mode: "recent", pinnedSessionKey: null, allowlist: [] };
+	// Known sessions keyed by session key (from sessions.list, agents.list and agent events)
+	const knownSessions = new Map<string, SessionInfo>();
+
+	function setStatus(next: Omit<GatewayStatus, "gatewayUrl">): void {
+		status = { ...next, gatewayUrl: statusUrl };
+		onStatusChange?.(status);
+	}
+
+	function setCurrentSession(sessionKey: string): void {
+		if (sessionKey === currentSessionKey) return;
+		currentSessionKey = sessionKey;
+		onSessionChange(sessionKey);
+		subscribeChat();
+	}
+
+	/** Ask for chat events of the followed session; gateways that broadcast them to every operator may not need it. */
+	function subscribeChat(): void {
+		const sessionKey = currentSessionKey;
+		if (!sessionKey || !chatSubscribeSupported || chatSubscription === sessionKey || status.state !== "connected") return;
+		chatSubscription = sessionKey;
+		request("chat.subscribe", { sessionKey }).catch((err: GatewayRequestError) => {
+			if (chatSubscription === sessionKey) chatSubscription = null;
+			if (err.kind !== "response") return;
+			chatSubscribeSupported = false;
+			console.warn(`flawed-avatar: chat.subscribe failed (${err.message}), relying on broadcast chat events`);
+		});
+	}
+
+	function rememberChatTurn(key: string): void {
+		chatTurnKeys.add(key);
+		if (chatTurnKeys.size > CHAT_TURN_KEYS_MAX) {
+			const oldest = chatTurnKeys.values().next().value;
+			if (oldest !== undefined) chatTurnKeys.delete(oldest);
+		}
+	}
+
+	/** Assistant output already arrives as agent events; only user turns from elsewhere are new here. */
+	function processChatEvent(evt: ChatEventPayload): void {
+		const { message, sessionKey } = evt;
+		if (message?.role !== "user" || !sessionKey || !isFollowed(sessionKey)) return;
+
+		// chat.send uses the idempotency key as the run id, so either identifies the turn
+		const key = evt.idempotencyKey ?? evt.runId;
+		if (key) {
+			if (chatTurnKeys.has(key)) return;
+			rememberChatTurn(key);
+		}
+
+		const text = chatMessageText(message.content);
+		if (!text) return;
+		onChatTurn?.({
+			sessionKey,
+			text,
+			source: describeChatClient(evt.client),
+			timestamp: typeof message.timestamp === "number" ? message.timestamp : Date.now(),
+		});
+	}
+
+	function isFollowed(sessionKey: string | undefined): boolean {
+		switch (follow.mode) {
+			case "recent":
+				return true;
+			case "pinned":
+				return sessionKey !== undefined && sessionKey === follow.pinnedSessionKey;
+			case "allowlist":
+				return sessionKey !== undefined && follow.allowlist.includes(sessionKey);
+		}
+	}
+
+	function getSortedSessions(): SessionInfo[] {
+		return [...knownSessions.values()].sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0));
+	}
+
+	function sessionOrder(): string {
+		return getSortedSessions().map((s) => s.key).join("\n");
+	}
+
+	function rememberSessions(sessions: SessionInfo[]): void {
+		// Agent events bump updatedAt on every frame; that alone only matters when it reorders the list
+		const orderBefore = sessionOrder();
+		let changed = false;
+		for (const session of sessions) {
+			const existing = knownSessions.get(session.key);
+			const merged: SessionInfo = {
+				...existing,
+				...session,
+				updatedAt: Math.max(existing?.updatedAt ?? 0, session.updatedAt ?? 0) || undefined,
+			};
+			knownSessions.set(session.key, merged);
+			if (
+				!existing ||
+				existing.displayName !== merged.displayName ||
+				existing.agentId !== merged.agentId
+			) {
+				changed = true;
+			}
+		}
+		if (changed || sessionOrder() !== orderBefore) onSessionsChanged?.(getSortedSessions());
+	}
+
+	/** Pick the session to follow when the current one is unset or no longer allowed. */
+	function retarget(): void {
+		if (follow.mode === "pinned") {
+			if (follow.pinnedSessionKey) setCurrentSession(follow.pinnedSessionKey);
+			return;
+		}
+		if (currentSessionKey && isFollowed(currentSessionKey)) return;
+
+		// Most recently active followed session, then the first allowlisted one
+		const candidate = getSortedSessions().find((s) => isFollowed(s.key))?.key
+			?? (follow.mode === "allowlist" ? follow.allowlist[0] : undefined);
+		if (candidate) setCurrentSession(candidate);
+	}
+
+	function emitApprovals(): void {
+		onApprovalsChanged?.([...approvals.values()].map((a) => a.request));
+	}
+
+	function removeApproval(id: string): void {
+		const entry = approvals.get(id);
+		if (!entry) return;
+		if (entry.expiryTimer) clearTimeout(entry.expiryTimer);
+		approvals.delete(id);
+		emitApprovals();
+	}
+
+	function clearApprovals(): void {
+		if (approvals.size === 0) return;
+		for (const [, entry] of approvals) {
+			if (entry.expiryTimer) clearTimeout(entry.expiryTimer);
+		}
+		approvals.clear();
+		emitApprovals();
+	}
+
+	function processApprovalRequested(payload: ApprovalRequestedPayload): void {
+		const command = payload.request?.command;
+		if (typeof payload.id !== "string" || typeof command !== "string") return;
+		const sessionKey = payload.request?.sessionKey ?? undefined;
+		// Approvals for sessions we don't follow are left to other operator clients
+		if (sessionKey && !isFollowed(sessionKey)) return;
+
+		const request: ApprovalRequest = {
+			id: payload.id,
+			command,
+			cwd: payload.request?.cwd ?? undefined,
+			host: payload.request?.host ?? undefined,
+			agentId: payload.request?.agentId ?? undefined,
+			sessionKey,
+			createdAt: payload.createdAtMs ?? Date.now(),
+			expiresAt: payload.expiresAtMs,
+		};
+		const expiryTimer = request.expiresAt !== undefined
+			? setTimeout(() => removeApproval(request.id), Math.max(0, request.expiresAt - Date.now()))
+			: null;
+		approvals.set(request.id, { request, expiryTimer });
+		emitApprovals();
+	}
+
+	function resetReplyCues(): void {
+		replyCuesSeen = 0;
+		replyExpression = undefined;
+		replyRaw = null;
+	}
+
+	/** Fold a tool event into the running-tools table and return the tool's current state. */
+	function trackTool(data: ToolEventData, ts: number): ToolState | undefined {
+		const name = typeof data?.name === "string" ? data.name : undefined;
+		if (!name) return undefined;
+		const key = typeof data.toolCallId === "string" ? data.toolCallId : name;
+		const now = Number.isFinite(ts) ? ts : Date.now();
+
+		let tool = runningTools.get(key);
+		if (!tool) {
+			tool = {
+				callId: typeof data.toolCallId === "string" ? data.toolCallId : undefined,
+				name,
+				status: "running",
+				startedAt: now,
+				activity: describeTool?.(name),
+			};
+			runningTools.set(key, tool);
+		}
+
+		const args = summarizeToolArgs(data.args);
+		if (args) tool.args = args;
+
+		if (data.phase === "result") {
+			tool.status = data.isError === true ? "error" : "done";
+			tool.durationMs = Math.max(0, now - tool.startedAt);
+			runningTools.delete(key);
+		}
+		return { ...tool };
+	}
 
 	function processAgentEvent(evt: AgentEventPayload): void {
 		const { stream, data, sessionKey } = evt;
 
+		if (sessionKey) {
+			rememberSessions([{ key: sessionKey, updatedAt: evt.ts }]);
+		}
+
+		// Sessions outside the follow mode never drive the avatar
+		if (!isFollowed(sessionKey)) return;
+
 		// Track session changes - agent events contain the actual sessionKey
-		if (sessionKey && sessionKey !== currentSessionKey) {
-			currentSessionKey = sessionKey;
-			if (agentConfigs?.[sessionKey]?.vrmPath) {
-				onModelSwitch(agentConfigs[sessionKey].vrmPath!);
-			}
+		if (sessionKey) {
+			setCurrentSession(sessionKey);
 		}
 
+		// Trailing events from a run we aborted must not revive the avatar
+		if (abortedRunIds.has(evt.runId)) return;
+
+		const runId = evt.runId;
 		if (stream === "lifecycle") {
 			const phase = data?.phase;
 			if (phase === "start") {
-				onStateChange({ phase: "thinking", agentId: sessionKey });
+				activeRun = { runId, sessionKey };
+				runningTools.clear();
+				resetReplyCues();
+				runReasoning = "";
+				onStateChange({ phase: "thinking", agentId: sessionKey, runId });
 			} else if (phase === "end" || phase === "error") {
-				onStateChange({ phase: "idle", agentId: sessionKey });
+				if (activeRun?.runId === runId) activeRun = null;
+				runningTools.clear();
+				if (failedRunId === runId) return;
+				if (phase === "error") {
+					failedRunId = runId;
+					onStateChange({ phase: "error", agentId: sessionKey, runId, error: describeAgentError(data) });
+				} else {
+					// Streaming hid what looked like the start of a tag; the reply is complete now
+					const complete = replyRaw ? parseEmotionTags(replyRaw.raw).text : null;
+					if (complete !== null && complete !== replyRaw?.shown) {
+						onStateChange({ phase: "speaking", text: complete, agentId: sessionKey, runId, expression: replyExpression });
+					}
+					resetReplyCues();
+					onStateChange({ phase: "idle", agentId: sessionKey, runId });
+				}
 			}
 		} else if (stream === "assistant") {
-			const text = typeof data?.text === "string" ? data.text : undefined;
-			onStateChange({ phase: "speaking", text, agentId: sessionKey });
+			const raw = typeof data?.text === "string" ? data.text : undefined;
+			if (raw === undefined) {
+				onStateChange({ phase: "speaking", agentId: sessionKey, runId, expression: replyExpression });
+				return;
+			}
+			// Tags drive the face and never reach chat, TTS or lip-sync
+			const { text, cues } = parseEmotionTags(raw, { streaming: true });
+			// Shorter cumulative text or another run means a new reply started
+			if (replyRaw && (raw.length < replyRaw.raw.length || runId !== replyRaw.runId)) resetReplyCues();
+			replyRaw = { raw, runId, shown: text };
+			const fresh = cues.slice(replyCuesSeen);
+			replyCuesSeen = cues.length;
+			for (const cue of fresh) {
+				if (cue.expression) replyExpression = cue.expression;
+			}
+			const gestures = fresh.flatMap((cue) => (cue.gesture ? [cue.gesture] : []));
+			onStateChange({
+				phase: "speaking",
+				text,
+				agentId: sessionKey,
+				runId,
+				expression: replyExpression,
+				gestures: gestures.length > 0 ? gestures : undefined,
+			});
+		} else if (stream === "thinking" || stream === "reasoning") {
+			// Cumulative text like the assistant stream, or bare deltas from older gateways
+			if (typeof data?.text === "string") {
+				runReasoning = data.text;
+			} else if (typeof data?.delta === "string") {
+				runReasoning += data.delta;
+			} else {
+				return;
+			}
+			if (runReasoning.length > REASONING_MAX_CHARS) runReasoning = `…${runReasoning.slice(-REASONING_MAX_CHARS)}`;
+			onStateChange({ phase: "thinking", agentId: sessionKey, runId, reasoning: runReasoning });
 		} else if (stream === "tool") {
-			onStateChange({ phase: "working", agentId: sessionKey });
+			// Text after a tool call is a fresh cumulative reply
+			resetReplyCues();
+			const tool = trackTool(data as ToolEventData, evt.ts);
+			onStateChange({ phase: "working", agentId: sessionKey, runId, tool });
 		} else if (stream === "error") {
-			onStateChange({ phase: "idle", agentId: sessionKey });
+			if (activeRun?.runId === runId) activeRun = null;
+			runningTools.clear();
+			if (failedRunId === runId) return;
+			failedRunId = runId;
+			onStateChange({ phase: "error", agentId: sessionKey, runId, error: describeAgentError(data) });
 		}
 	}
 
@@ -121,58 +657,29 @@ export function createGatewayClient(
 				// Agent events drive the avatar
 				if (evt.event === "agent" && evt.payload) {
 					processAgentEvent(evt.payload as AgentEventPayload);
+				} else if (evt.event === "chat" && evt.payload) {
+					processChatEvent(evt.payload as ChatEventPayload);
+				} else if (evt.event === "exec.approval.requested" && evt.payload) {
+					processApprovalRequested(evt.payload as ApprovalRequestedPayload);
+				} else if (evt.event === "exec.approval.resolved" && evt.payload) {
+					// Decided here or by another operator client
+					const id = (evt.payload as { id?: unknown }).id;
+					if (typeof id === "string") removeApproval(id);
 				}
 				return;
 			}
 
-			// Response frames (for our connect request, sessions list, or agents list)
+			// Response frames settle the matching pending request
 			if (parsed?.type === "res") {
 				const res = parsed as ResponseFrame;
+				const entry = pending.get(res.id);
+				if (!entry) return;
+				pending.delete(res.id);
+				clearTimeout(entry.timer);
 				if (res.ok) {
-					const payload = res.payload as Record<string, unknown> | undefined;
-
-					// Check if this is a sessions.list response
-					if (res.id === sessionsListRequestId && payload?.sessions && Array.isArray(payload.sessions)) {
-						sessionsListRequestId = null;
-						const sessions = payload.sessions as Array<{ key?: string; updatedAt?: number; displayName?: string }>;
-						if (sessions.length > 0 && !currentSessionKey) {
-							// Use the most recently active session (sessions are sorted by activity)
-							const firstSession = sessions[0];
-							if (firstSession.key) {
-								currentSessionKey = firstSession.key;
-							}
-						}
-					}
-
-					// Check if this is an agents list response (fallback)
-					if (res.id === agentsListRequestId && payload?.agents && Array.isArray(payload.agents)) {
-						agentsListRequestId = null;
-						const agents = payload.agents as Array<Record<string, unknown>>;
-						if (agents.length > 0 && !currentSessionKey) {
-							// Use first agent's main session key as fallback
-							const firstAgent = agents[0];
-							const agentId = firstAgent.id ?? "main";
-							const sessionKey = `agent:${agentId}:main`;
-							currentSessionKey = sessionKey;
-						}
-					}
-
-					// Connect success - request active sessions once
-					if (connectSent && !connectionSetupDone && !sessionsListRequestId && !agentsListRequestId) {
-						connectionSetupDone = true;
-						backoffMs = GATEWAY_RECONNECT_BASE_MS;
-						// Request recently active sessions
-						requestSessionsList();
-					}
+					entry.resolve(res.payload);
 				} else {
-					console.error("flawed-avatar: gateway response error:", res.error?.message ?? "unknown");
-					// If sessions.list failed, fall back to agents.list
-					if (res.id === sessionsListRequestId) {
-						sessionsListRequestId = null;
-						if (!currentSessionKey) {
-							requestAgentsList();
-						}
-					}
+					entry.reject(new GatewayRequestError(res.error?.message ?? "request failed", "response", res.error?.code, res.error?.details));
 				}
 			}
 		} catch (err) {
@@ -191,7 +698,7 @@ export function createGatewayClient(
 
 		const role = "operator";
 		const scopes = ["operator.admin"];
-		const storedToken = deviceIdentity ? loadStoredAuthToken(deviceIdentity.deviceId, role) : null;
+		const storedToken = deviceIdentity ? loadStoredAuthToken(deviceIdentity.deviceId, role, deviceTokenScope) : null;
 		const effectiveToken = storedToken ?? authToken ?? undefined;
 		const auth = effectiveToken ? { token: effectiveToken } : undefined;
 
@@ -219,135 +726,388 @@ export function createGatewayClient(
 			};
 		})();
 
-		const frame = {
-			type: "req",
-			id: randomUUID(),
-			method: "connect",
-			params: {
-				minProtocol: PROTOCOL_VERSION,
-				maxProtocol: PROTOCOL_VERSION,
-				client: {
-					id: "gateway-client",
-					displayName: "Flawed Avatar",
-					version: PKG_VERSION,
-					platform: process.platform,
-					mode: "backend",
-				},
-				caps: [],
-				role,
-				scopes,
-				auth,
-				device,
+		sendRequest("connect", {
+			minProtocol: PROTOCOL_VERSION,
+			maxProtocol: PROTOCOL_VERSION,
+			client: {
+				id: "gateway-client",
+				displayName: "Flawed Avatar",
+				version: PKG_VERSION,
+				platform: process.platform,
+				mode: "backend",
 			},
-		};
+			caps: [],
+			role,
+			scopes,
+			auth,
+			device,
+		}).then(
+			(hello) => {
+				backoffMs = GATEWAY_RECONNECT_BASE_MS;
+				lastError = undefined;
+				pairingRequestId = undefined;
+				saveIssuedDeviceToken(hello as HelloPayload | undefined, role, scopes);
+				setStatus({ state: "connected" });
+				// Subscriptions don't survive the socket
+				chatSubscription = null;
+				subscribeChat();
+				refreshSessions();
+			},
+			(err: GatewayRequestError) => {
+				if (err.kind === "disconnected") return;
+				lastError = err.message;
+				if (isPairingRequired(err)) {
+					const details = err.details as { requestId?: unknown } | undefined;
+					pairingRequestId = typeof details?.requestId === "string" ? details.requestId : undefined;
+					console.log(`flawed-avatar: device ${deviceIdentity?.deviceId.slice(0, 8)}… awaits approval${pairingRequestId ? ` (openclaw devices approve ${pairingRequestId})` : ""}`);
+					setStatus({ state: "pairing", error: lastError, pairingRequestId });
+					ws?.close();
+					return;
+				}
+				console.error("flawed-avatar: gateway rejected connect:", lastError);
+				// A gateway error means the credentials were refused; a timeout is just a stuck socket
+				if (err.kind === "response") {
+					setStatus({ state: "auth-failed", error: lastError });
+				}
+				// The close handler schedules the next attempt
+				ws?.close();
+			},
+		);
+	}
+
+	function isPairingRequired(err: GatewayRequestError): boolean {
+		if (err.kind !== "response" || !deviceIdentity) return false;
+		return err.code === NOT_PAIRED_CODE || /pairing required/i.test(err.message);
+	}
 
-		ws.send(JSON.stringify(frame));
+	/** Once the operator approves this device, the gateway issues a token for later connects. */
+	function saveIssuedDeviceToken(hello: HelloPayload | undefined, role: string, requestedScopes: string[]): void {
+		const auth = hello?.auth;
+		if (!deviceIdentity || typeof auth?.deviceToken !== "string") return;
+		if (auth.deviceToken === loadStoredAuthToken(deviceIdentity.deviceId, role, deviceTokenScope)) return;
+		const scopes = Array.isArray(auth.scopes)
+			? auth.scopes.filter((s): s is string => typeof s === "string")
+			: requestedScopes;
+		storeDeviceAuthToken(
+			deviceIdentity.deviceId,
+			typeof auth.role === "string" ? auth.role : role,
+			auth.deviceToken,
+			scopes,
+			deviceTokenScope,
+		);
+		console.log("flawed-avatar: stored device token issued by the gateway");
 	}
 
 	function queueConnect(): void {
 		connectNonce = null;
 		connectSent = false;
-		connectionSetupDone = false; // Reset for new connection
 		if (connectTimer) clearTimeout(connectTimer);
 		connectTimer = setTimeout(() => sendConnect(), 750);
 	}
 
-	function requestSessionsList(): void {
-		if (!ws || ws.readyState !== WebSocket.OPEN) return;
-		sessionsListRequestId = randomUUID();
-		const frame = {
-			type: "req",
-			id: sessionsListRequestId,
-			method: "sessions.list",
-			params: {
-				// Get recently active sessions (within last 60 minutes)
-				activeMinutes: 60,
-				includeGlobal: false,
-				includeUnknown: false,
-				limit: 10,
-			},
-		};
-		ws.send(JSON.stringify(frame));
+	function sendRequest(
+		method: string,
+		params: Record<string, unknown>,
+		timeoutMs: number = GATEWAY_REQUEST_TIMEOUT_MS,
+	): Promise<unknown> {
+		if (!ws || ws.readyState !== WebSocket.OPEN) {
+			return Promise.reject(new GatewayRequestError("gateway not connected", "disconnected"));
+		}
+		const id = randomUUID();
+		const socket = ws;
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				pending.delete(id);
+				reject(new GatewayRequestError(`${method} timed out after ${timeoutMs}ms`, "timeout"));
+			}, timeoutMs);
+			pending.set(id, { resolve, reject, timer });
+			socket.send(JSON.stringify({ type: "req", id, method, params }));
+		});
 	}
 
-	function requestAgentsList(): void {
-		if (!ws || ws.readyState !== WebSocket.OPEN) return;
-		agentsListRequestId = randomUUID();
-		const frame = {
-			type: "req",
-			id: agentsListRequestId,
-			method: "agents.list",
-			params: {},
-		};
-		ws.send(JSON.stringify(frame));
+	function rejectPending(message: string): void {
+		for (const [, entry] of pending) {
+			clearTimeout(entry.timer);
+			entry.reject(new GatewayRequestError(message, "disconnected"));
+		}
+		pending.clear();
+	}
+
+	function request<T = unknown>(
+		method: string,
+		params: Record<string, unknown> = {},
+		opts: GatewayRequestOptions = {},
+	): Promise<T> {
+		if (replay) {
+			return Promise.reject(new GatewayRequestError("replaying a recording; gateway requests are disabled", "disconnected"));
+		}
+		if (status.state !== "connected") {
+			return Promise.reject(new GatewayRequestError("gateway not connected", "disconnected"));
+		}
+		return sendRequest(method, params, opts.timeoutMs) as Promise<T>;
+	}
+
+	async function loadSessionsList(): Promise<void> {
+		const payload = await request<{ sessions?: unknown }>("sessions.list", {
+			// Get recently active sessions (within last 60 minutes)
+			activeMinutes: 60,
+			includeGlobal: false,
+			includeUnknown: false,
+			limit: 10,
+		});
+		if (!Array.isArray(payload?.sessions)) return;
+		const sessions = payload.sessions as Array<{ key?: string; updatedAt?: number; displayName?: string }>;
+		rememberSessions(sessions
+			.filter((s): s is typeof s & { key: string } => typeof s.key === "string")
+			.map((s) => ({
+				key: s.key,
+				displayName: typeof s.displayName === "string" ? s.displayName : undefined,
+				updatedAt: typeof s.updatedAt === "number" ? s.updatedAt : undefined,
+			})));
+		// Use the most recently active followed session (sessions are sorted by activity)
+		retarget();
+	}
+
+	async function loadAgentsList(): Promise<void> {
+		const payload = await request<{ agents?: unknown }>("agents.list");
+		if (!Array.isArray(payload?.agents)) return;
+		const agents = payload.agents as Array<Record<string, unknown>>;
+		rememberSessions(agents.map((agent) => {
+			const agentId = typeof agent.id === "string" ? agent.id : "main";
+			const name = typeof agent.name === "string" ? agent.name : agentId;
+			const key = `agent:${agentId}:main`;
+			// Keep the session's own display name if sessions.list already provided one
+			return { key, agentId, displayName: knownSessions.get(key)?.displayName ?? name };
+		}));
+		retarget();
+	}
+
+	/** sessions.list first, then agents.list (which still feeds the picker if the first fails). */
+	function refreshSessions(): void {
+		loadSessionsList()
+			.catch((err: Error) => console.error("flawed-avatar: sessions.list failed:", err.message))
+			.then(() => loadAgentsList())
+			.catch((err: Error) => console.error("flawed-avatar: agents.list failed:", err.message));
 	}
 
 	function connect(): void {
 		if (destroyed) return;
 
-		ws = new WebSocket(gatewayUrl, { maxPayload: 25 * 1024 * 1024 });
+		reconnectTimer = null;
+		setStatus({ state: "connecting" });
+		try {
+			ws = new WebSocket(gatewayUrl, { maxPayload: 25 * 1024 * 1024, ...tls });
+		} catch (err) {
+			// A malformed URL throws here rather than emitting "error"; retry like any failed connect
+			lastError = (err as Error).message;
+			console.warn(`flawed-avatar: can't connect to ${gatewayUrl}: ${lastError}`);
+			ws = null;
+			scheduleReconnect();
+			return;
+		}
 
 		ws.on("open", () => {
+			setStatus({ state: "handshaking" });
 			queueConnect();
 		});
 
 		ws.on("message", (data) => {
 			const raw = typeof data === "string" ? data : data.toString();
+			recorder?.record(raw);
 			handleMessage(raw);
 		});
 
 		ws.on("close", (code, reason) => {
-			console.log(`flawed-avatar: ws closed (code=${code}, reason=${reason?.toString() ?? ""})`);
+			const reasonText = reason?.toString() ?? "";
+			console.log(`flawed-avatar: ws closed (code=${code}, reason=${reasonText})`);
 			ws = null;
+			rejectPending("gateway disconnected");
+			// The gateway re-sends nothing on reconnect; stale cards would be undecidable
+			clearApprovals();
+			if (code === CLOSE_POLICY_VIOLATION && status.state !== "auth-failed" && status.state !== "pairing") {
+				lastError = reasonText || "unauthorized";
+				setStatus({ state: "auth-failed", error: lastError });
+			}
 			scheduleReconnect();
 		});
 
 		ws.on("error", (err) => {
+			lastError = err.message;
 			console.error("flawed-avatar: gateway connection error:", err.message);
 		});
 	}
 
 	function scheduleReconnect(): void {
 		if (destroyed) return;
+		// Approval can come at any moment; keep checking at a steady pace instead of backing off
+		if (status.state === "pairing") {
+			reconnectTimer = setTimeout(() => connect(), GATEWAY_PAIRING_RETRY_MS);
+			setStatus({
+				state: "pairing",
+				nextRetryAt: Date.now() + GATEWAY_PAIRING_RETRY_MS,
+				error: lastError,
+				pairingRequestId,
+			});
+			return;
+		}
 		const delay = backoffMs;
 		backoffMs = Math.min(backoffMs * 2, GATEWAY_RECONNECT_MAX_MS);
 		reconnectTimer = setTimeout(() => connect(), delay);
+		// Auth failures stay visible while we wait; everything else is a plain reconnect
+		setStatus({
+			state: status.state === "auth-failed" ? "auth-failed" : "reconnecting",
+			nextRetryAt: Date.now() + delay,
+			error: lastError,
+		});
 	}
 
-	// Start the initial connection
-	connect();
+	/** Close the socket without its close handler reconnecting. */
+	function discardSocket(): void {
+		if (!ws) return;
+		ws.removeAllListeners();
+		// Closing while CONNECTING emits "error"; with no listener that would crash the process
+		ws.on("error", () => {});
+		ws.close();
+		ws = null;
+	}
+
+	/** Tear down the socket and any pending retry, then connect with a fresh backoff. */
+	function reconnectNow(): void {
+		if (reconnectTimer) {
+			clearTimeout(reconnectTimer);
+			reconnectTimer = null;
+		}
+		if (connectTimer) {
+			clearTimeout(connectTimer);
+			connectTimer = null;
+		}
+		backoffMs = GATEWAY_RECONNECT_BASE_MS;
+		rejectPending("gateway reconnecting");
+		discardSocket();
+		connect();
+	}
+
+	// A pinned session is known before the gateway tells us anything
+	retarget();
+
+	/** Offline mode: frames come from a recording; requests fail as "not connected". */
+	function startReplay(source: { filePath: string; speed: number }): void {
+		setStatus({ state: "connected" });
+		replaySource = createGatewayReplay({
+			filePath: source.filePath,
+			speed: source.speed,
+			onFrame: handleMessage,
+		});
+		replaySource.start();
+	}
+
+	// Start the initial connection (or the replay that stands in for it)
+	if (replay) {
+		startReplay(replay);
+	} else {
+		connect();
+	}
 
 	return {
 		destroy() {
 			destroyed = true;
 			if (reconnectTimer) clearTimeout(reconnectTimer);
 			if (connectTimer) clearTimeout(connectTimer);
-			if (ws) {
-				ws.removeAllListeners();
-				ws.close();
-				ws = null;
-			}
+			rejectPending("gateway client destroyed");
+			clearApprovals();
+			replaySource?.stop();
+			recorder?.close();
+			discardSocket();
 		},
 
-		sendChat(text: string, sessionKey: string | null) {
+		request,
+
+		async sendChat(text: string, sessionKey: string | null) {
 			// Use provided sessionKey, or fall back to auto-detected session, or default
 			const effectiveSessionKey = sessionKey ?? currentSessionKey ?? "agent:main:main";
-			if (!ws || ws.readyState !== WebSocket.OPEN) return;
-			const frame = {
-				type: "req",
-				id: randomUUID(),
-				method: "chat.send",
-				params: {
-					sessionKey: effectiveSessionKey,
-					message: text,
-					idempotencyKey: randomUUID(),
-				},
-			};
-			ws.send(JSON.stringify(frame));
+			const idempotencyKey = randomUUID();
+			// The gateway echoes our turn as a chat event; the overlay already shows it
+			rememberChatTurn(idempotencyKey);
+			await request("chat.send", {
+				sessionKey: effectiveSessionKey,
+				message: text,
+				idempotencyKey,
+			});
+		},
+
+		async fetchHistory(sessionKey: string, limit: number) {
+			const payload = await request<{ messages?: unknown }>("chat.history", { sessionKey, limit });
+			if (!Array.isArray(payload?.messages)) return [];
+			return parseHistoryEntries(sessionKey, payload.messages as HistoryEntry[]);
+		},
+
+		async abortRun(runId?: string) {
+			const target = runId ?? activeRun?.runId;
+			if (!target) throw new Error("no active run");
+			const sessionKey = (activeRun?.runId === target ? activeRun.sessionKey : undefined)
+				?? currentSessionKey ?? "agent:main:main";
+			await request("chat.abort", { sessionKey, runId: target });
+
+			abortedRunIds.add(target);
+			// Keep the set small; old runs never emit again
+			if (abortedRunIds.size > ABORTED_RUNS_MAX) {
+				const oldest = abortedRunIds.values().next().value;
+				if (oldest !== undefined) abortedRunIds.delete(oldest);
+			}
+			if (activeRun?.runId === target) {
+				activeRun = null;
+				runningTools.clear();
+			}
+			onStateChange({ phase: "idle", agentId: sessionKey, runId: target, interrupted: true });
 		},
 
 		getCurrentAgentId() {
 			return currentSessionKey;
 		},
+
+		getSessions() {
+			return getSortedSessions();
+		},
+
+		refreshSessions,
+
+		getStatus() {
+			return status;
+		},
+
+		getPendingApprovals() {
+			return [...approvals.values()].map((a) => a.request);
+		},
+
+		async resolveApproval(id: string, decision: ApprovalDecision) {
+			await request("exec.approval.resolve", { id, decision });
+			removeApproval(id);
+		},
+
+		retryNow() {
+			if (destroyed || replay || !canRetryGateway(status)) return;
+			reconnectNow();
+		},
+
+		setGatewayUrl(url: string) {
+			if (destroyed || replay || url === gatewayUrl) return;
+			console.log(`flawed-avatar: gateway URL changed to ${url}, reconnecting`);
+			gatewayUrl = url;
+			statusUrl = url;
+			// Pairing, approvals and subscriptions belong to the old gateway
+			pairingRequestId = undefined;
+			chatSubscribeSupported = true;
+			lastError = undefined;
+			clearApprovals();
+			reconnectNow();
+		},
+
+		setFollow(next: SessionFollow) {
+			follow = { ...next, allowlist: [...next.allowlist] };
+			if (follow.pinnedSessionKey) {
+				rememberSessions([{ key: follow.pinnedSessionKey }]);
+			}
+			retarget();
+		},
 	};
 }
@@ -0,0 +1,77 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { rootCertificates } from "node:tls";
+import type { GatewayProfile } from "../shared/types.js";
+import type { GatewayClientOptions } from "./gateway-client.js";
+
+/** The part of the gateway client's options a profile decides. */
+export type GatewayConnection = Pick<GatewayClientOptions, "gatewayUrl" | "authToken" | "deviceTokenScope" | "tls">;
+
+function expandHome(filePath: string): string {
+	return filePath === "~" || filePath.startsWith("~/") ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
+function readProfileToken(profile: GatewayProfile, openclawToken: () => string | undefined): string | undefined {
+	switch (profile.tokenSource) {
+		case "openclaw":
+			return openclawToken();
+		case "env": {
+			const token = process.env[profile.tokenRef];
+			if (!token) console.warn(`flawed-avatar: gateway profile "${profile.name}": $${profile.tokenRef} is not set`);
+			return token || undefined;
+		}
+		case "file":
+			try {
+				const token = fs.readFileSync(expandHome(profile.tokenRef), "utf-8").split("\n")[0].trim();
+				return token || undefined;
+			} catch (err) {
+				console.warn(`flawed-avatar: gateway profile "${profile.name}": can't read token file (${(err as Error).message})`);
+				return undefined;
+			}
+		case "none":
+			return undefined;
+	}
+}
+
+function readCaFile(profile: GatewayProfile): string | undefined {
+	if (!profile.caFile) return undefined;
+	try {
+		return fs.readFileSync(expandHome(profile.caFile), "utf-8");
+	} catch (err) {
+		console.warn(`flawed-avatar: gateway profile "${profile.name}": can't read CA file (${(err as Error).message})`);
+		return undefined;
+	}
+}
+
+/**
+ * Read the profile's token and CA certificates, fresh on every connect so an
+ * edited token file or rotated certificate is picked up by the next switch.
+ * A missing token or CA file is logged and the gateway gets to refuse us.
+ */
+export function resolveProfileConnection(
+	profile: GatewayProfile,
+	options: { builtinUrl: string; openclawToken: () => string | undefined },
+): GatewayConnection {
+	const ca = readCaFile(profile);
+	return {
+		gatewayUrl: profile.url,
+		authToken: readProfileToken(profile, options.openclawToken),
+		// A device token issued by the local gateway means nothing to a remote one
+		deviceTokenScope: profile.url === options.builtinUrl ? undefined : profile.url,
+		tls: {
+			// Node replaces its CA list with `ca`; keep the public CAs trusted too
+			...(ca ? { ca: [...rootCertificates, ca] } : {}),
+			rejectUnauthorized: !profile.allowInsecureTls,
+		},
+	};
+}
+
+/** Whether two versions of a profile connect the same way, so a rename needs no reconnect. */
+export function sameConnection(a: GatewayProfile, b: GatewayProfile): boolean {
+	return a.url === b.url
+		&& a.tokenSource === b.tokenSource
+		&& a.tokenRef === b.tokenRef
+		&& a.caFile === b.caFile
+		&& a.allowInsecureTls === b.allowInsecureTls;
+}
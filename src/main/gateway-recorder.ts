@@ -0,0 +1,138 @@
+import * as fs from "node:fs";
+
+/**
+ * One line of a recording: when the frame arrived (ms since recording start,
+ * plus wall clock) and the frame itself, parsed when it was valid JSON.
+ */
+type RecordedFrame = {
+	t: number;
+	at: number;
+	frame: unknown;
+};
+
+const REDACTED_KEYS = new Set(["token", "deviceToken", "authToken", "signature"]);
+
+// Recordings get shared in bug reports; never write credentials the gateway echoes back
+function redact(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(redact);
+	if (typeof value !== "object" || value === null) return value;
+	const out: Record<string, unknown> = {};
+	for (const [key, inner] of Object.entries(value)) {
+		out[key] = REDACTED_KEYS.has(key) ? "[redacted]" : redact(inner);
+	}
+	return out;
+}
+
+export interface GatewayRecorder {
+	record(raw: string): void;
+	close(): void;
+}
+
+/** Append every received gateway frame to a JSONL file. */
+export function createGatewayRecorder(filePath: string): GatewayRecorder {
+	const startedAt = Date.now();
+	let stream: fs.WriteStream | null = fs.createWriteStream(filePath, { flags: "a" });
+
+	stream.on("error", (err) => {
+		console.error(`flawed-avatar: recording to ${filePath} stopped:`, err.message);
+		stream = null;
+	});
+	console.log(`flawed-avatar: recording gateway frames to ${filePath}`);
+
+	return {
+		record(raw: string) {
+			if (!stream) return;
+			let frame: unknown = raw;
+			try {
+				frame = redact(JSON.parse(raw));
+			} catch {
+				// Keep unparseable frames verbatim; they are exactly what we want to debug
+			}
+			const now = Date.now();
+			const line: RecordedFrame = { t: now - startedAt, at: now, frame };
+			stream.write(JSON.stringify(line) + "\n");
+		},
+
+		close() {
+			stream?.end();
+			stream = null;
+		},
+	};
+}
+
+export interface GatewayReplayOptions {
+	filePath: string;
+	/** Playback rate: 1 is real time, 4 is four times faster, 0 plays without delays. */
+	speed: number;
+	onFrame: (raw: string) => void;
+	onDone?: () => void;
+}
+
+export interface GatewayReplay {
+	start(): void;
+	stop(): void;
+}
+
+function parseRecording(filePath: string): RecordedFrame[] {
+	const frames: RecordedFrame[] = [];
+	const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+	lines.forEach((line, index) => {
+		if (!line.trim()) return;
+		try {
+			const entry = JSON.parse(line) as Partial<RecordedFrame>;
+			if (typeof entry.t !== "number" || entry.frame === undefined) throw new Error("missing t/frame");
+			frames.push({ t: entry.t, at: entry.at ?? 0, frame: entry.frame });
+		} catch (err) {
+			console.warn(`flawed-avatar: skipping replay line ${index + 1}: ${(err as Error).message}`);
+		}
+	});
+	return frames;
+}
+
+/**
+ * Feed a recording back frame by frame, keeping the recorded spacing
+ * (scaled by `speed`) so animation and TTS timing match the original run.
+ */
+export function createGatewayReplay(options: GatewayReplayOptions): GatewayReplay {
+	const { filePath, speed, onFrame, onDone } = options;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let stopped = false;
+
+	function playFrom(frames: RecordedFrame[], index: number): void {
+		if (stopped) return;
+		if (index >= frames.length) {
+			console.log(`flawed-avatar: replay of ${filePath} finished (${frames.length} frames)`);
+			onDone?.();
+			return;
+		}
+		const entry = frames[index];
+		onFrame(typeof entry.frame === "string" ? entry.frame : JSON.stringify(entry.frame));
+
+		const next = frames[index + 1];
+		const gap = next ? Math.max(0, next.t - entry.t) : 0;
+		const delay = speed > 0 ? gap / speed : 0;
+		timer = setTimeout(() => playFrom(frames, index + 1), delay);
+	}
+
+	return {
+		start() {
+			let frames: RecordedFrame[];
+			try {
+				frames = parseRecording(filePath);
+			} catch (err) {
+				console.error(`flawed-avatar: cannot read replay ${filePath}:`, (err as Error).message);
+				onDone?.();
+				return;
+			}
+			console.log(`flawed-avatar: replaying ${frames.length} frames from ${filePath} at ${speed > 0 ? `${speed}x` : "full speed"}`);
+			// Start immediately rather than waiting out the gap before the first frame
+			playFrom(frames, 0);
+		},
+
+		stop() {
+			stopped = true;
+			if (timer) clearTimeout(timer);
+			timer = null;
+		},
+	};
+}
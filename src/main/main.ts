@@ -1,16 +1,65 @@
-import { app, ipcMain } from "electron";
+import { app, ipcMain, Notification } from "electron";
+import { randomUUID } from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
 import { fileURLToPath } from "node:url";
-import { createWindowManager } from "./window-manager.js";
+import { createWindowManager, type WindowManager } from "./window-manager.js";
 import { createTray } from "./tray.js";
-import { createStdinListener, type StdinCommand } from "./stdin-listener.js";
-import { createGatewayClient } from "./gateway-client.js";
-import { loadDeviceIdentity } from "./device-identity.js";
+import { createServiceChannel } from "./service-channel.js";
+import { createServiceHandlers, type ServiceRuntime } from "./service-handlers.js";
+import { createGatewayClient, type GatewayClient } from "./gateway-client.js";
+import { resolveProfileConnection, sameConnection, type GatewayConnection } from "./gateway-profiles.js";
+import { createChatHistorySync } from "./chat-history-sync.js";
+import { loadDeviceIdentity, loadOrCreateDeviceIdentity } from "./device-identity.js";
+import { parseAgentConfigs } from "./agent-config.js";
+import { createToolActivityResolver, parseToolActivities } from "./tool-activities.js";
+import { watchRenderer } from "./renderer-watchdog.js";
 import { IPC } from "../shared/ipc-channels.js";
-import { GATEWAY_URL_DEFAULT, CHAT_INPUT_MAX_LENGTH } from "../shared/config.js";
-import { getVrmModelPath, saveVrmModelPath } from "./persistence/index.js";
+import { AVATAR_EXPRESSIONS } from "../shared/emotion-tags.js";
+import { resolveWatchdogConfig } from "../shared/watchdog.js";
+import type { AvatarHeartbeat, LaunchConfig } from "../shared/service-rpc.js";
+import {
+	GATEWAY_URL_DEFAULT,
+	GATEWAY_PROFILES_MAX,
+	CHAT_INPUT_MAX_LENGTH,
+	CAMERA_PRESETS,
+	LAUNCH_CONFIG_TIMEOUT_MS,
+	WATCHDOG_HEARTBEAT_MS,
+} from "../shared/config.js";
+import type {
+	AgentAppearance,
+	AgentPhase,
+	ApprovalDecision,
+	AvatarCapabilities,
+	ChatHistoryPage,
+	GatewayActionResult,
+	GatewayProfile,
+	GatewayProfilesSnapshot,
+	SessionFollow,
+	RenderStats,
+	SessionsSnapshot,
+} from "../shared/types.js";
+import {
+	getVrmModelPath,
+	getTtsEnabled,
+	getTtsEngine,
+	getTtsVoice,
+	getOpacity,
+	getScale,
+	getLightingProfile,
+	getZoom,
+	getSessionFollow,
+	saveSessionFollow,
+	SessionFollowSchema,
+	getGatewayProfiles,
+	saveGatewayProfiles,
+	getActiveGatewayProfileId,
+	saveActiveGatewayProfileId,
+	GatewayProfileSchema,
+	appendMessage,
+	setChatGateway,
+} from "./persistence/index.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -27,12 +76,16 @@ function getCliArg(prefix: string): string | undefined {
 
 const cliGatewayUrl = getCliArg("--gateway-url=");
 const cliVrmPath = getCliArg("--vrm-path=");
-const cliAgentConfigs = getCliArg("--agent-configs=");
-const cliAuthToken = getCliArg("--auth-token=");
+// Launched by the plugin service: JSON-RPC over stdin/stdout, secrets arrive in the init frame
+const serviceRpc = process.argv.includes("--stdio-rpc");
+// Debugging: record received gateway frames, or replay a recording with no gateway at all
+const cliRecordGateway = getCliArg("--record-gateway=");
+const cliReplayGateway = getCliArg("--replay-gateway=");
+const cliReplaySpeed = getCliArg("--replay-speed=");
 
-// Resolve auth token: CLI arg > env var > openclaw.json
-function resolveAuthToken(): string | undefined {
-	if (cliAuthToken) return cliAuthToken;
+// Resolve auth token: launch config > env var > openclaw.json
+function resolveAuthToken(launchToken: string | undefined): string | undefined {
+	if (launchToken) return launchToken;
 	if (process.env.OPENCLAW_GATEWAY_TOKEN) return process.env.OPENCLAW_GATEWAY_TOKEN;
 	try {
 		const configPath = path.join(os.homedir(), ".openclaw", "openclaw.json");
@@ -46,25 +99,53 @@ function resolveAuthToken(): string | undefined {
 	return undefined;
 }
 
-// Parse per-agent VRM configs if provided (with prototype pollution protection)
-let agentConfigs: Record<string, { vrmPath?: string }> | undefined;
-if (cliAgentConfigs) {
-	try {
-		const parsed: unknown = JSON.parse(cliAgentConfigs);
-		if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
-			const safe: Record<string, { vrmPath?: string }> = Object.create(null);
-			for (const [key, val] of Object.entries(parsed as Record<string, unknown>)) {
-				if (key === "__proto__" || key === "constructor" || key === "prototype") continue;
-				if (typeof val === "object" && val !== null) {
-					const v = val as Record<string, unknown>;
-					safe[key] = { vrmPath: typeof v.vrmPath === "string" ? v.vrmPath : undefined };
-				}
-			}
-			agentConfigs = safe;
+// --replay-speed: 1 = real time (default), 4 = four times faster, 0 = no delays
+function resolveReplaySource(): { filePath: string; speed: number } | undefined {
+	if (!cliReplayGateway) return undefined;
+	let speed = cliReplaySpeed === undefined ? 1 : Number(cliReplaySpeed);
+	if (!Number.isFinite(speed) || speed < 0) {
+		console.warn(`flawed-avatar: invalid --replay-speed '${cliReplaySpeed}', using real time`);
+		speed = 1;
+	}
+	return { filePath: path.resolve(cliReplayGateway), speed };
+}
+
+const APPROVAL_DECISIONS: readonly ApprovalDecision[] = ["allow-once", "allow-always", "deny"];
+
+const ANIMATION_PHASES: readonly AgentPhase[] = ["idle", "thinking", "speaking", "working", "error"];
+const bundledAnimationsDir = path.resolve(__dirname, "..", "..", "..", "assets", "animations");
+
+// Collect .fbx clips from {animBase}/{phase}/, refusing anything that resolves outside animBase
+function scanAnimationClips(animBase: string): Record<AgentPhase, string[]> {
+	const clips = {} as Record<AgentPhase, string[]>;
+	// Resolved like the clips, so a symlinked animations folder keeps them; null when missing
+	const realBase = (() => {
+		try {
+			return fs.realpathSync(animBase);
+		} catch {
+			return null;
+		}
+	})();
+
+	for (const phase of ANIMATION_PHASES) {
+		const dir = path.join(animBase, phase);
+		try {
+			clips[phase] = realBase === null ? [] : fs.readdirSync(dir)
+				.filter(f => f.toLowerCase().endsWith(".fbx"))
+				.filter(f => !/[\\\/]/.test(f))
+				.map(f => fs.realpathSync(path.join(dir, f)))
+				.filter(full => isInside(realBase, full));
+		} catch {
+			clips[phase] = [];
 		}
-	} catch {
-		// Ignore malformed JSON
 	}
+	return clips;
+}
+
+// A path, not a string prefix: /a/coder2 is not inside /a/coder
+function isInside(base: string, full: string): boolean {
+	const rel = path.relative(base, full);
+	return rel !== "" && rel !== ".." && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel);
 }
 
 // Prevent multiple instances
@@ -73,91 +154,522 @@ if (!gotLock) {
 	app.quit();
 }
 
-app.whenReady().then(() => {
+let receiveLaunchConfig: (config: LaunchConfig) => void = () => {};
+const launchConfigReady = serviceRpc
+	? new Promise<LaunchConfig>((resolve) => {
+		receiveLaunchConfig = resolve;
+		setTimeout(() => {
+			console.warn("flawed-avatar: no launch config on stdin, continuing without it");
+			resolve({});
+		}, LAUNCH_CONFIG_TIMEOUT_MS);
+	})
+	: Promise.resolve<LaunchConfig>({});
+
+// Set once the windows and gateway client exist; service requests before that fail fast
+let runtime: ServiceRuntime | null = null;
+
+// Requests from the plugin service (the launch config arrives first)
+const service = serviceRpc
+	? createServiceChannel({
+		onInit: (config) => receiveLaunchConfig(config),
+		handlers: createServiceHandlers(() => runtime),
+	})
+	: null;
+
+app.whenReady().then(async () => {
+	// Renderers call IPC handlers as soon as they load, so everything is set up before the windows
+	const launchConfig = await launchConfigReady;
 	const wm = createWindowManager();
-	createTray(wm);
+
+	wm.avatarWin.on("show", () => service?.emit("visibilityChanged", { visible: true }));
+	wm.avatarWin.on("hide", () => service?.emit("visibilityChanged", { visible: false }));
+
+	// Parse per-agent overrides (vrm, voice, scale, lighting, framing, animations)
+	let agentConfigs = parseAgentConfigs(launchConfig.agentConfigs);
+
+	// Tool name -> clip / expression / caption, user rules layered over the defaults
+	let describeTool = createToolActivityResolver(parseToolActivities(launchConfig.toolActivities));
+
+	// Plugin config's default model; the service may change it while we run
+	let vrmPathOverride = cliVrmPath;
 
 	// Return VRM model path (CLI override > persisted > default)
 	const defaultVrmPath = path.join(__dirname, "..", "..", "..", "assets", "models", "CaptainLobster.vrm");
-	ipcMain.handle(IPC.GET_VRM_PATH, () => {
-		if (cliVrmPath) return cliVrmPath;
+	function resolveDefaultVrmPath(): string {
+		if (vrmPathOverride) return vrmPathOverride;
 		const persisted = getVrmModelPath();
 		if (persisted && fs.existsSync(persisted)) return persisted;
 		return defaultVrmPath;
-	});
+	}
+
+	ipcMain.handle(IPC.GET_VRM_PATH, () => resolveDefaultVrmPath());
 
 	// Return animation clip paths from assets/animations/{phase}/ directories
 	ipcMain.handle(IPC.GET_ANIMATIONS_CONFIG, () => {
-		const animBase = path.resolve(__dirname, "..", "..", "..", "assets", "animations");
-		const phases = ["idle", "thinking", "speaking", "working"] as const;
-		const clips: Record<string, string[]> = {};
-
-		for (const phase of phases) {
-			const dir = path.join(animBase, phase);
-			try {
-				clips[phase] = fs.readdirSync(dir)
-					.filter(f => f.toLowerCase().endsWith(".fbx"))
-					.filter(f => !/[\\\/]/.test(f))
-					.map(f => {
-						const full = fs.realpathSync(path.join(dir, f));
-						if (!full.replace(/\\/g, "/").startsWith(animBase.replace(/\\/g, "/"))) {
-							return null;
-						}
-						return full;
-					})
-					.filter((f): f is string => f !== null);
-			} catch {
-				clips[phase] = [];
+		return { clips: scanAnimationClips(bundledAnimationsDir) };
+	});
+
+	// Per-agent overrides layered over persisted settings for the active session
+	let currentAppearance: AgentAppearance | null = null;
+
+	function resolveAgentAppearance(sessionKey: string | null): AgentAppearance {
+		const override = sessionKey ? agentConfigs?.[sessionKey] : undefined;
+		const vrmPath = override?.vrmPath && fs.existsSync(override.vrmPath)
+			? override.vrmPath
+			: resolveDefaultVrmPath();
+		const animationsDir = override?.animationsDir ?? null;
+		return {
+			sessionKey,
+			vrmPath,
+			ttsEngine: override?.ttsEngine ?? getTtsEngine(),
+			ttsVoice: override?.ttsVoice ?? (override?.ttsEngine ? "" : getTtsVoice()),
+			scale: override?.scale ?? getScale(),
+			lightingProfile: override?.lightingProfile ?? getLightingProfile(),
+			cameraZoom: override?.framing ? CAMERA_PRESETS[override.framing] : getZoom(),
+			animationsDir,
+			animations: scanAnimationClips(animationsDir ?? bundledAnimationsDir),
+		};
+	}
+
+	ipcMain.handle(IPC.GET_AGENT_APPEARANCE, () => currentAppearance);
+
+	function applySession(sessionKey: string): void {
+		// Without any per-agent config, persisted settings stay authoritative
+		if (!agentConfigs || Object.keys(agentConfigs).length === 0) return;
+		currentAppearance = resolveAgentAppearance(sessionKey);
+		wm.sendToAvatar(IPC.AGENT_APPEARANCE, currentAppearance);
+	}
+
+	// After a config edit: re-resolve the active session's look, or just the default model
+	function refreshAppearance(): void {
+		if (currentAppearance || (agentConfigs && Object.keys(agentConfigs).length > 0)) {
+			currentAppearance = resolveAgentAppearance(gw.getCurrentAgentId());
+			wm.sendToAvatar(IPC.AGENT_APPEARANCE, currentAppearance);
+		} else {
+			wm.sendToAvatar(IPC.VRM_MODEL_CHANGED, resolveDefaultVrmPath());
+		}
+	}
+
+	// Connect to gateway WebSocket for agent event streaming: the built-in gateway, or the active saved profile
+	let builtinGatewayUrl = cliGatewayUrl ?? GATEWAY_URL_DEFAULT;
+	const replaySource = resolveReplaySource();
+	// A replay never contacts the gateway, so it shouldn't mint an identity either
+	const deviceIdentity = replaySource ? loadDeviceIdentity() : loadOrCreateDeviceIdentity();
+
+	// A profile deleted while it was active falls back to the built-in gateway
+	function getActiveGatewayProfile(): GatewayProfile | null {
+		const id = getActiveGatewayProfileId();
+		return getGatewayProfiles().find((profile) => profile.id === id) ?? null;
+	}
+
+	function resolveGatewayConnection(): GatewayConnection {
+		const profile = getActiveGatewayProfile();
+		const openclawToken = () => resolveAuthToken(launchConfig.authToken);
+		return profile
+			? resolveProfileConnection(profile, { builtinUrl: builtinGatewayUrl, openclawToken })
+			: { gatewayUrl: builtinGatewayUrl, authToken: openclawToken() };
+	}
+	let sessionFollow: SessionFollow = getSessionFollow();
+	const sessionListeners: Array<() => void> = [];
+	const statusListeners: Array<() => void> = [];
+
+	function getSessionsSnapshot(): SessionsSnapshot {
+		return {
+			sessions: gw.getSessions(),
+			currentSessionKey: gw.getCurrentAgentId(),
+			follow: sessionFollow,
+		};
+	}
+
+	function broadcastSessions(): void {
+		wm.sendToChat(IPC.SESSIONS_CHANGED, getSessionsSnapshot());
+		for (const listener of sessionListeners) listener();
+	}
+
+	function setSessionFollow(follow: SessionFollow): void {
+		sessionFollow = follow;
+		saveSessionFollow(follow);
+		gw.setFollow(follow);
+		broadcastSessions();
+	}
+
+	let agentPhase: AgentPhase = "idle";
+
+	// With the overlay hidden, a failed run would otherwise go unnoticed
+	function notifyRunFailed(error: string | undefined): void {
+		if (!Notification.isSupported()) return;
+		const notification = new Notification({ title: "Agent run failed", body: error ?? "The agent run failed" });
+		notification.on("click", () => {
+			wm.showAvatar();
+			wm.showChat();
+		});
+		notification.show();
+	}
+
+	// The gateway client calls back synchronously while it is being created
+	let gwReady = false;
+	let wasConnected = false;
+
+	function connectGateway(connection: GatewayConnection): GatewayClient {
+		const device = deviceIdentity ? deviceIdentity.deviceId.slice(0, 8) + "…" : "none";
+		console.log(`flawed-avatar: connecting to ${connection.gatewayUrl} (auth=${connection.authToken ? "token" : "none"}, device=${device})`);
+		return createGatewayClient({
+			...connection,
+			onStateChange: (state) => {
+				agentPhase = state.phase;
+				wm.sendAgentState(state);
+				if (state.phase === "error" && !wm.avatarWin.isVisible()) notifyRunFailed(state.error);
+			},
+			onSessionChange: (sessionKey) => {
+				applySession(sessionKey);
+				if (!gwReady) return;
+				broadcastSessions();
+				void historySync.sync(sessionKey);
+			},
+			onSessionsChanged: () => {
+				if (gwReady) broadcastSessions();
+			},
+			onApprovalsChanged: (approvals) => {
+				wm.sendToAvatar(IPC.APPROVALS_CHANGED, approvals);
+				wm.sendToChat(IPC.APPROVALS_CHANGED, approvals);
+				// Bring the chat up so the operator sees the prompt
+				if (approvals.length > 0) wm.showChat();
+			},
+			onChatTurn: (turn) => {
+				// Saved here, like our own sends: the chat window only persists replies
+				appendMessage("user", turn.text, turn.sessionKey, turn.source);
+				wm.sendToChat(IPC.CHAT_TURN, turn);
+			},
+			onStatusChange: (status) => {
+				// The transcript may have moved on while we were away
+				const sessionKey = gwReady ? gw.getCurrentAgentId() : null;
+				if (status.state === "connected" && !wasConnected && sessionKey) void historySync.sync(sessionKey);
+				wasConnected = status.state === "connected";
+				wm.sendToAvatar(IPC.GATEWAY_STATUS, status);
+				wm.sendToChat(IPC.GATEWAY_STATUS, status);
+				for (const listener of statusListeners) listener();
+				service?.emit("gatewayStatus", status);
+			},
+			describeTool: (name) => describeTool(name),
+			deviceIdentity,
+			follow: sessionFollow,
+			recordPath: cliRecordGateway ? path.resolve(cliRecordGateway) : undefined,
+			replay: replaySource,
+		});
+	}
+
+	setChatGateway(getActiveGatewayProfile()?.id);
+	let gw = connectGateway(resolveGatewayConnection());
+	const historySync = createChatHistorySync({
+		// Through a closure: switching profiles replaces the client
+		gw: { fetchHistory: (sessionKey, limit) => gw.fetchHistory(sessionKey, limit) },
+		onSynced: (page) => {
+			// A slow answer for a session we already left
+			if (page.sessionKey === gw.getCurrentAgentId()) wm.sendToChat(IPC.CHAT_HISTORY_SYNCED, page);
+		},
+	});
+	gwReady = true;
+
+	const profileListeners: Array<() => void> = [];
+
+	function getGatewayProfilesSnapshot(): GatewayProfilesSnapshot {
+		return {
+			profiles: getGatewayProfiles(),
+			activeProfileId: getActiveGatewayProfile()?.id ?? null,
+			builtinUrl: builtinGatewayUrl,
+		};
+	}
+
+	function broadcastGatewayProfiles(): void {
+		wm.sendToSettings(IPC.GATEWAY_PROFILES_CHANGED, getGatewayProfilesSnapshot());
+		for (const listener of profileListeners) listener();
+	}
+
+	/** Tear down the gateway client and connect a new one for the active profile. */
+	function reconnectGateway(): void {
+		// A replay stands in for the gateway until it is restarted
+		if (replaySource) return;
+		gwReady = false;
+		wasConnected = false;
+		gw.destroy();
+		// Show the new gateway's messages; its transcript is merged in once connected
+		setChatGateway(getActiveGatewayProfile()?.id);
+		wm.sendToChat(IPC.CHAT_HISTORY_CLEARED);
+		// A run on the old gateway will never report its end
+		agentPhase = "idle";
+		wm.sendAgentState({ phase: "idle" });
+		gw = connectGateway(resolveGatewayConnection());
+		gwReady = true;
+		broadcastSessions();
+		for (const listener of statusListeners) listener();
+	}
+
+	function switchGatewayProfile(id: string | null): void {
+		const profile = id === null ? null : getGatewayProfiles().find((p) => p.id === id);
+		if (profile === undefined || (profile?.id ?? null) === (getActiveGatewayProfile()?.id ?? null)) return;
+		console.log(`flawed-avatar: switching to ${profile ? `gateway profile "${profile.name}"` : "the built-in gateway"}`);
+		saveActiveGatewayProfileId(profile?.id ?? null);
+		reconnectGateway();
+		broadcastGatewayProfiles();
+	}
+
+	// Reported by the avatar renderer every few seconds
+	let renderStats: RenderStats | null = null;
+	ipcMain.on(IPC.RENDER_STATS, (_event, stats: unknown) => {
+		const report = stats as Partial<RenderStats> | null;
+		if (typeof report?.fps !== "number" || typeof report.vrmPath !== "string") return;
+		renderStats = { fps: report.fps, vrmPath: report.vrmPath };
+	});
+
+	// Reported by the avatar renderer whenever the model or clip set changes
+	let capabilities: AvatarCapabilities | null = null;
+	ipcMain.on(IPC.CAPABILITIES, (_event, reported: unknown) => {
+		const report = reported as Partial<AvatarCapabilities> | null;
+		if (!Array.isArray(report?.expressions) || !Array.isArray(report.gestures)) return;
+		capabilities = {
+			expressions: AVATAR_EXPRESSIONS.filter((e) => report.expressions!.includes(e)),
+			gestures: report.gestures.filter((g): g is string => typeof g === "string"),
+		};
+		service?.emit("capabilities", capabilities);
+	});
+
+	// Crashed renderers are reloaded; the avatar's heartbeats also catch hangs and lost GPU contexts
+	const avatarWatchdog = watchRenderer({
+		win: wm.avatarWin,
+		config: resolveWatchdogConfig(launchConfig.watchdog),
+		heartbeats: true,
+		onRecover: (reason) => reportRendererIncident("avatar", reason),
+	});
+	const chatWatchdog = watchRenderer({
+		win: wm.chatWin,
+		config: resolveWatchdogConfig(launchConfig.watchdog),
+		heartbeats: false,
+		onRecover: (reason) => reportRendererIncident("chat", reason),
+	});
+	ipcMain.on(IPC.RENDERER_HEARTBEAT, (event, problem: unknown) => {
+		if (event.sender !== wm.avatarWin.webContents) return;
+		avatarWatchdog.beat(typeof problem === "string" ? problem : null);
+	});
+
+	function vitals(): AvatarHeartbeat {
+		return {
+			uptimeMs: Math.round(process.uptime() * 1000),
+			rssMb: Math.round(process.memoryUsage().rss / 1_048_576),
+			rendererBeatAgoMs: avatarWatchdog.lastBeatAgoMs(),
+		};
+	}
+
+	function reportRendererIncident(window: "avatar" | "chat", reason: string): void {
+		// The service logs the diagnostics and decides whether a reload is enough
+		if (!service) {
+			console.warn(`flawed-avatar: ${window} renderer ${reason}, reloading`);
+			return;
+		}
+		service.emit("rendererRecovered", {
+			...vitals(),
+			window,
+			reason,
+			fps: renderStats?.fps ?? null,
+			vrmPath: renderStats?.vrmPath ?? null,
+		});
+	}
+
+	// Proof of life for the service's watchdog: stops if this event loop hangs
+	const heartbeatTimer = service
+		? setInterval(() => service.emit("heartbeat", vitals()), WATCHDOG_HEARTBEAT_MS)
+		: null;
+
+	runtime = {
+		wm,
+		getState: () => ({
+			visible: !wm.avatarWin.isDestroyed() && wm.avatarWin.isVisible(),
+			chatVisible: wm.chatVisible,
+			phase: agentPhase,
+			sessionKey: gw.getCurrentAgentId(),
+			gateway: gw.getStatus(),
+			vrmPath: renderStats?.vrmPath ?? null,
+			fps: renderStats?.fps ?? null,
+			tts: {
+				enabled: getTtsEnabled(),
+				engine: currentAppearance?.ttsEngine ?? getTtsEngine(),
+				voice: currentAppearance?.ttsVoice ?? getTtsVoice(),
+			},
+			opacity: getOpacity(),
+		}),
+		applyConfig: (delta) => {
+			const applied: string[] = [];
+			if ("toolActivities" in delta) {
+				describeTool = createToolActivityResolver(parseToolActivities(delta.toolActivities ?? undefined));
+				applied.push("toolActivities");
+			}
+			if ("agents" in delta) {
+				agentConfigs = parseAgentConfigs(delta.agents ?? undefined);
+				applied.push("agents");
+			}
+			if ("vrmPath" in delta) {
+				vrmPathOverride = typeof delta.vrmPath === "string" ? delta.vrmPath : undefined;
+				applied.push("vrmPath");
+			}
+			if ("agents" in delta || "vrmPath" in delta) refreshAppearance();
+			if ("watchdog" in delta) {
+				const watchdogConfig = resolveWatchdogConfig(delta.watchdog);
+				avatarWatchdog.configure(watchdogConfig);
+				chatWatchdog.configure(watchdogConfig);
+				applied.push("watchdog");
+			}
+			if ("gatewayUrl" in delta) {
+				builtinGatewayUrl = typeof delta.gatewayUrl === "string" ? delta.gatewayUrl : GATEWAY_URL_DEFAULT;
+				// An active profile stays connected; the new URL is used once the built-in gateway is picked again
+				if (!getActiveGatewayProfile()) gw.setGatewayUrl(builtinGatewayUrl);
+				broadcastGatewayProfiles();
+				applied.push("gatewayUrl");
 			}
+			console.log(`flawed-avatar: applied config change (${applied.join(", ") || "nothing"})`);
+			return applied;
+		},
+		// Until the renderer's first report, offer every expression and no clips
+		getCapabilities: () => capabilities ?? { expressions: [...AVATAR_EXPRESSIONS], gestures: [] },
+	};
+	service?.emit("ready", { pid: process.pid });
+
+	createTray(wm, {
+		sessions: {
+			getSnapshot: getSessionsSnapshot,
+			setFollow: setSessionFollow,
+			refresh: () => gw.refreshSessions(),
+			onChange: (listener) => sessionListeners.push(listener),
+		},
+		connection: {
+			getStatus: () => gw.getStatus(),
+			retryNow: () => gw.retryNow(),
+			onChange: (listener) => statusListeners.push(listener),
+		},
+		// Nothing to switch while replaying a recording
+		gateways: replaySource
+			? undefined
+			: {
+				getSnapshot: getGatewayProfilesSnapshot,
+				switchTo: switchGatewayProfile,
+				onChange: (listener) => profileListeners.push(listener),
+			},
+	});
+
+	ipcMain.handle(IPC.GET_GATEWAY_STATUS, () => gw.getStatus());
+	ipcMain.on(IPC.RETRY_GATEWAY, () => gw.retryNow());
+
+	// IPC: gateway profiles, managed from the settings window
+	ipcMain.handle(IPC.GET_GATEWAY_PROFILES, () => getGatewayProfilesSnapshot());
+
+	ipcMain.handle(IPC.SAVE_GATEWAY_PROFILE, (_event, draft: unknown): GatewayActionResult => {
+		if (!draft || typeof draft !== "object") return { ok: false, error: "invalid profile" };
+		const fields = draft as Record<string, unknown>;
+		// New profiles arrive without an id
+		const id = typeof fields.id === "string" && fields.id.length > 0 ? fields.id : randomUUID();
+		const result = GatewayProfileSchema.safeParse({ ...fields, id });
+		if (!result.success) {
+			const issue = result.error.issues[0];
+			return { ok: false, error: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message };
+		}
+		const profiles = getGatewayProfiles();
+		const previous = profiles.find((p) => p.id === id);
+		if (!previous && profiles.length >= GATEWAY_PROFILES_MAX) {
+			return { ok: false, error: `at most ${GATEWAY_PROFILES_MAX} profiles` };
 		}
-		return { clips };
-	});
-
-	// Stdin listener for commands from the plugin service
-	const cleanupStdin = createStdinListener((cmd: StdinCommand) => {
-		switch (cmd.type) {
-			case "show":
-				wm.showAvatar();
-				break;
-			case "hide":
-				wm.hideAll();
-				break;
-			case "shutdown":
-				app.quit();
-				break;
-			case "model-switch":
-				wm.sendToAvatar(IPC.VRM_MODEL_CHANGED, cmd.vrmPath);
-				break;
+		const active = getActiveGatewayProfile();
+		saveGatewayProfiles(previous ? profiles.map((p) => (p.id === id ? result.data : p)) : [...profiles, result.data]);
+		// Connection edits to the connected profile take effect at once; a rename keeps the chat
+		if (active?.id === id && !sameConnection(active, result.data)) reconnectGateway();
+		broadcastGatewayProfiles();
+		return { ok: true };
+	});
+
+	ipcMain.on(IPC.DELETE_GATEWAY_PROFILE, (_event, id: unknown) => {
+		const profiles = getGatewayProfiles();
+		if (typeof id !== "string" || !profiles.some((p) => p.id === id)) return;
+		const wasActive = getActiveGatewayProfile()?.id === id;
+		saveGatewayProfiles(profiles.filter((p) => p.id !== id));
+		if (wasActive) {
+			saveActiveGatewayProfileId(null);
+			reconnectGateway();
 		}
+		broadcastGatewayProfiles();
+	});
+
+	ipcMain.on(IPC.SWITCH_GATEWAY_PROFILE, (_event, id: unknown) => {
+		if (id !== null && typeof id !== "string") return;
+		switchGatewayProfile(id);
 	});
 
-	// Connect to gateway WebSocket for agent event streaming
-	const gatewayUrl = cliGatewayUrl ?? GATEWAY_URL_DEFAULT;
-	const authToken = resolveAuthToken();
-	const deviceIdentity = loadDeviceIdentity();
-	console.log(`flawed-avatar: connecting to ${gatewayUrl} (auth=${authToken ? "token" : "none"}, device=${deviceIdentity ? deviceIdentity.deviceId.slice(0, 8) + "…" : "none"})`);
-	const gw = createGatewayClient(
-		gatewayUrl,
-		(state) => wm.sendAgentState(state),
-		(vrmPath) => wm.sendToAvatar(IPC.VRM_MODEL_CHANGED, vrmPath),
-		agentConfigs,
-		authToken,
-		deviceIdentity,
-	);
-
-	// IPC: send chat message to active agent
-	ipcMain.on(IPC.SEND_CHAT, (_event, text: unknown) => {
+	ipcMain.handle(IPC.GET_SESSIONS, () => getSessionsSnapshot());
+
+	ipcMain.on(IPC.SET_SESSION_FOLLOW, (_event, follow: unknown) => {
+		const result = SessionFollowSchema.safeParse(follow);
+		if (!result.success) return;
+		setSessionFollow(result.data);
+	});
+
+	ipcMain.on(IPC.REFRESH_SESSIONS, () => gw.refreshSessions());
+
+	// IPC: send chat message to active agent and report whether the gateway accepted it
+	ipcMain.handle(IPC.SEND_CHAT, async (_event, text: unknown): Promise<GatewayActionResult> => {
 		if (typeof text !== "string" || text.trim().length === 0 || text.length > CHAT_INPUT_MAX_LENGTH) {
-			return;
+			return { ok: false, error: "invalid message" };
 		}
 		const agentId = gw.getCurrentAgentId();
-		gw.sendChat(text.trim(), agentId);
+		try {
+			await gw.sendChat(text.trim(), agentId);
+			// Persist only messages the gateway accepted, under the session they went to
+			appendMessage("user", text.trim(), agentId ?? undefined);
+			return { ok: true };
+		} catch (err) {
+			console.error("flawed-avatar: chat.send failed:", (err as Error).message);
+			return { ok: false, error: (err as Error).message };
+		}
+	});
+
+	// IPC: scroll back through the followed session's history
+	ipcMain.handle(IPC.LOAD_OLDER_MESSAGES, async (_event, before: unknown): Promise<ChatHistoryPage> => {
+		const sessionKey = gw.getCurrentAgentId();
+		if (typeof before !== "number" || !Number.isFinite(before) || !sessionKey) {
+			return { sessionKey: sessionKey ?? "", messages: [], hasMore: false };
+		}
+		return historySync.loadOlder(sessionKey, before);
+	});
+
+	// IPC: abort the running agent turn
+	ipcMain.handle(IPC.ABORT_RUN, async (_event, runId: unknown): Promise<GatewayActionResult> => {
+		try {
+			await gw.abortRun(typeof runId === "string" ? runId : undefined);
+			return { ok: true };
+		} catch (err) {
+			console.error("flawed-avatar: chat.abort failed:", (err as Error).message);
+			return { ok: false, error: (err as Error).message };
+		}
+	});
+
+	// IPC: exec approvals
+	ipcMain.handle(IPC.GET_APPROVALS, () => gw.getPendingApprovals());
+
+	ipcMain.handle(IPC.RESOLVE_APPROVAL, async (_event, id: unknown, decision: unknown): Promise<GatewayActionResult> => {
+		if (typeof id !== "string" || !APPROVAL_DECISIONS.includes(decision as ApprovalDecision)) {
+			return { ok: false, error: "invalid approval decision" };
+		}
+		try {
+			await gw.resolveApproval(id, decision as ApprovalDecision);
+			return { ok: true };
+		} catch (err) {
+			console.error("flawed-avatar: exec.approval.resolve failed:", (err as Error).message);
+			return { ok: false, error: (err as Error).message };
+		}
 	});
 
 	// Clean up resources on quit
 	app.on("before-quit", () => {
+		if (heartbeatTimer) clearInterval(heartbeatTimer);
+		avatarWatchdog.dispose();
+		chatWatchdog.dispose();
 		gw.destroy();
-		cleanupStdin();
+		service?.close();
 		wm.destroyAll();
 	});
 });
@@ -0,0 +1,52 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { VRM_LIBRARY_DIR } from "../shared/config.js";
+import type { AvatarModel } from "../shared/service-rpc.js";
+import { getOpenclawDir } from "./persistence/index.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const bundledModelsDir = path.join(__dirname, "..", "..", "..", "assets", "models");
+
+export function getUserModelsDir(): string {
+	return path.join(getOpenclawDir(), VRM_LIBRARY_DIR);
+}
+
+// Library names are file names without the .vrm extension, e.g. "CaptainLobster"
+function scanDir(dir: string): AvatarModel[] {
+	try {
+		return fs.readdirSync(dir)
+			.filter((f) => f.toLowerCase().endsWith(".vrm"))
+			.map((f) => ({ name: f.slice(0, -".vrm".length), path: path.join(dir, f) }));
+	} catch {
+		return [];
+	}
+}
+
+/** Bundled models plus the user's own; a user model shadows a bundled one of the same name. */
+export function listAvatarModels(): AvatarModel[] {
+	const byName = new Map<string, AvatarModel>();
+	for (const model of [...scanDir(bundledModelsDir), ...scanDir(getUserModelsDir())]) {
+		byName.set(model.name.toLowerCase(), model);
+	}
+	return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Resolve a model reference: an existing .vrm path, or a library name
+ * (case-insensitive, extension optional). Returns null when nothing matches.
+ */
+export function resolveAvatarModel(ref: string): string | null {
+	const trimmed = ref.trim();
+	if (!trimmed) return null;
+
+	if (path.isAbsolute(trimmed) || /[\\/]/.test(trimmed)) {
+		const full = path.resolve(trimmed);
+		return full.toLowerCase().endsWith(".vrm") && fs.existsSync(full) ? full : null;
+	}
+
+	const wanted = trimmed.replace(/\.vrm$/i, "").toLowerCase();
+	return listAvatarModels().find((m) => m.name.toLowerCase() === wanted)?.path ?? null;
+}
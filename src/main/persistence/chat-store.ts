@@ -2,10 +2,13 @@ import {
 	CHAT_HISTORY_FILE,
 	CHAT_MAX_HISTORY,
 	CHAT_DEBOUNCE_MS,
+	CHAT_HISTORY_MATCH_WINDOW_MS,
 	APPEND_QUEUE_FLUSH_MS,
 } from "../../shared/config.js";
+import type { TranscriptMessage } from "../../shared/types.js";
 import { createFileStore, type FileStore } from "./file-store.js";
 import {
+	CHAT_MESSAGE_MAX_LENGTH,
 	ChatHistorySchema,
 	createDefaultChatHistory,
 	type ChatHistory,
@@ -15,6 +18,8 @@ import {
 let store: FileStore<ChatHistory> | null = null;
 let appendQueue: ChatMessage[] = [];
 let appendTimeout: ReturnType<typeof setTimeout> | null = null;
+// Gateway profile the history is read and written for; undefined is the built-in gateway
+let activeGateway: string | undefined;
 
 function getStore(): FileStore<ChatHistory> {
 	if (!store) {
@@ -33,6 +38,62 @@ function generateId(): string {
 	return `${Date.now()}-${Math.random().toString(16).slice(2, 10)}`;
 }
 
+// Ids from generateId(); anything else came from a gateway transcript
+const LOCAL_ID_PATTERN = /^\d+-[0-9a-f]{1,8}$/;
+
+/**
+ * Session keys repeat across gateways, so only the active gateway's messages count.
+ * Messages saved before sessions were tracked have no agentId and show in every session.
+ */
+function belongsTo(message: ChatMessage, sessionKey: string): boolean {
+	return message.gateway === activeGateway && (!message.agentId || message.agentId === sessionKey);
+}
+
+/** Switch the history to another gateway's messages; the others stay cached for switching back. */
+export function setChatGateway(profileId: string | undefined): void {
+	activeGateway = profileId;
+}
+
+/**
+ * Merge a session transcript into local messages by id. A local message the
+ * gateway doesn't know by id yet (same role and text, close in time) takes the
+ * transcript's id instead of being shown twice. Result is oldest first.
+ */
+export function mergeChatMessages(
+	local: ChatMessage[],
+	sessionKey: string,
+	transcript: TranscriptMessage[],
+): ChatMessage[] {
+	const merged = [...local];
+	const known = new Set(local.map((m) => m.id));
+	for (const entry of transcript) {
+		if (known.has(entry.id)) continue;
+		known.add(entry.id);
+		const text = entry.text.slice(0, CHAT_MESSAGE_MAX_LENGTH);
+		const timestamp = Math.max(1, Math.round(entry.timestamp));
+		const twin = merged.findIndex((m) =>
+			LOCAL_ID_PATTERN.test(m.id)
+			&& belongsTo(m, sessionKey)
+			&& m.role === entry.role
+			&& m.text.trim() === text
+			&& Math.abs(m.timestamp - timestamp) <= CHAT_HISTORY_MATCH_WINDOW_MS);
+		if (twin >= 0) {
+			merged[twin] = { ...merged[twin], id: entry.id, timestamp, agentId: sessionKey };
+		} else {
+			merged.push({
+				id: entry.id,
+				timestamp,
+				role: entry.role,
+				text,
+				agentId: sessionKey,
+				gateway: activeGateway,
+				source: entry.source,
+			});
+		}
+	}
+	return merged.sort((a, b) => a.timestamp - b.timestamp);
+}
+
 function flushAppendQueue(): void {
 	if (appendQueue.length === 0) return;
 
@@ -63,6 +124,7 @@ export function appendMessage(
 	role: "user" | "assistant",
 	text: string,
 	agentId?: string,
+	source?: string,
 ): ChatMessage {
 	const message: ChatMessage = {
 		id: generateId(),
@@ -70,6 +132,8 @@ export function appendMessage(
 		role,
 		text,
 		agentId,
+		gateway: activeGateway,
+		source,
 	};
 
 	appendQueue.push(message);
@@ -86,6 +150,31 @@ export function appendMessage(
 	return message;
 }
 
+/** Fold a session's transcript from the gateway into the local history. */
+export function mergeTranscript(sessionKey: string, transcript: TranscriptMessage[]): void {
+	// Pending appends may be the local copies of transcript entries
+	if (appendTimeout) {
+		clearTimeout(appendTimeout);
+		appendTimeout = null;
+	}
+	flushAppendQueue();
+
+	const current = getStore().getCache() ?? loadChatHistory();
+	const merged = mergeChatMessages(current.messages, sessionKey, transcript);
+	getStore().save({
+		...current,
+		messages: merged.slice(-CHAT_MAX_HISTORY),
+		lastUpdated: Date.now(),
+	});
+}
+
+/** The latest `limit` messages of one session, oldest first, optionally only those before a time. */
+export function getSessionMessages(sessionKey: string, limit: number, before?: number): ChatMessage[] {
+	return getChatHistory().messages
+		.filter((m) => belongsTo(m, sessionKey) && (before === undefined || m.timestamp < before))
+		.slice(-limit);
+}
+
 export function clearChatHistory(): void {
 	// Clear pending queue
 	appendQueue = [];
@@ -6,13 +6,16 @@ export type {
 	LoadResult,
 } from "./types.js";
 
-export type { LightingCustom } from "./types.js";
+export type { LightingCustom, SessionFollow, GatewayProfile } from "./types.js";
 
 export {
 	SETTINGS_SCHEMA_VERSION,
 	CHAT_SCHEMA_VERSION,
+	CHAT_MESSAGE_MAX_LENGTH,
 	SettingsSchema,
 	LightingCustomSchema,
+	SessionFollowSchema,
+	GatewayProfileSchema,
 	ChatMessageSchema,
 	ChatHistorySchema,
 	createDefaultSettings,
@@ -49,6 +52,16 @@ export {
 	getLightingProfile,
 	saveLightingCustom,
 	getLightingCustom,
+	saveSessionFollow,
+	getSessionFollow,
+	saveGatewayProfiles,
+	getGatewayProfiles,
+	saveActiveGatewayProfileId,
+	getActiveGatewayProfileId,
+	saveSentimentEnabled,
+	getSentimentEnabled,
+	saveSentimentStrength,
+	getSentimentStrength,
 	flushSettings,
 	cleanupSettings,
 	getSettingsStore,
@@ -61,6 +74,10 @@ export {
 	clearChatHistory,
 	getRecentMessages,
 	getChatHistory,
+	getSessionMessages,
+	mergeTranscript,
+	mergeChatMessages,
+	setChatGateway,
 	flushChat,
 	cleanupChat,
 } from "./chat-store.js";
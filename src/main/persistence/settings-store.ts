@@ -11,6 +11,10 @@ import {
 	TTS_ENABLED_DEFAULT,
 	TTS_ENGINE_DEFAULT,
 	TTS_VOICE_DEFAULT,
+	SENTIMENT_ENABLED_DEFAULT,
+	SENTIMENT_STRENGTH_MIN,
+	SENTIMENT_STRENGTH_MAX,
+	SENTIMENT_STRENGTH_DEFAULT,
 	SCALE_MIN,
 	SCALE_MAX,
 	SCALE_DEFAULT,
@@ -22,6 +26,8 @@ import {
 	createDefaultSettings,
 	type Settings,
 	type LightingCustom,
+	type SessionFollow,
+	type GatewayProfile,
 } from "./types.js";
 import { computeDisplayHash } from "../display-utils.js";
 
@@ -156,6 +162,30 @@ export function getTtsVoice(): string {
 	return settings.ttsVoice ?? TTS_VOICE_DEFAULT;
 }
 
+export function saveSentimentEnabled(enabled: boolean): void {
+	const current = getStore().getCache() ?? loadSettings();
+	const updated: Settings = { ...current, sentimentEnabled: enabled };
+	getStore().save(updated);
+}
+
+export function getSentimentEnabled(): boolean {
+	const settings = getStore().getCache() ?? loadSettings();
+	return settings.sentimentEnabled ?? SENTIMENT_ENABLED_DEFAULT;
+}
+
+export function saveSentimentStrength(strength: number): void {
+	if (!Number.isFinite(strength)) return;
+	const clamped = Math.max(SENTIMENT_STRENGTH_MIN, Math.min(SENTIMENT_STRENGTH_MAX, strength));
+	const current = getStore().getCache() ?? loadSettings();
+	const updated: Settings = { ...current, sentimentStrength: clamped };
+	getStore().save(updated);
+}
+
+export function getSentimentStrength(): number {
+	const settings = getStore().getCache() ?? loadSettings();
+	return settings.sentimentStrength ?? SENTIMENT_STRENGTH_DEFAULT;
+}
+
 export function saveVrmModelPath(path: string): void {
 	const current = getStore().getCache() ?? loadSettings();
 	const updated: Settings = {
@@ -205,6 +235,39 @@ export function getLightingCustom(): LightingCustom | undefined {
 	return settings.lightingCustom;
 }
 
+export function saveSessionFollow(follow: SessionFollow): void {
+	const current = getStore().getCache() ?? loadSettings();
+	const updated: Settings = { ...current, sessionFollow: follow };
+	getStore().save(updated);
+}
+
+export function getSessionFollow(): SessionFollow {
+	const settings = getStore().getCache() ?? loadSettings();
+	return settings.sessionFollow;
+}
+
+export function saveGatewayProfiles(profiles: GatewayProfile[]): void {
+	const current = getStore().getCache() ?? loadSettings();
+	const updated: Settings = { ...current, gatewayProfiles: profiles };
+	getStore().save(updated);
+}
+
+export function getGatewayProfiles(): GatewayProfile[] {
+	const settings = getStore().getCache() ?? loadSettings();
+	return settings.gatewayProfiles;
+}
+
+export function saveActiveGatewayProfileId(id: string | null): void {
+	const current = getStore().getCache() ?? loadSettings();
+	const updated: Settings = { ...current, activeGatewayProfileId: id };
+	getStore().save(updated);
+}
+
+export function getActiveGatewayProfileId(): string | null {
+	const settings = getStore().getCache() ?? loadSettings();
+	return settings.activeGatewayProfileId;
+}
+
 export async function flushSettings(): Promise<void> {
 	await getStore().flush();
 }
@@ -11,14 +11,21 @@ import {
 	TTS_ENABLED_DEFAULT,
 	TTS_ENGINE_DEFAULT,
 	TTS_VOICE_DEFAULT,
+	SENTIMENT_ENABLED_DEFAULT,
+	SENTIMENT_STRENGTH_MIN,
+	SENTIMENT_STRENGTH_MAX,
+	SENTIMENT_STRENGTH_DEFAULT,
 	SCALE_MIN,
 	SCALE_MAX,
 	SCALE_DEFAULT,
 	LIGHTING_PROFILE_DEFAULT,
+	GATEWAY_PROFILES_MAX,
+	GATEWAY_PROFILE_NAME_MAX,
 } from "../../shared/config.js";
 
 export const SETTINGS_SCHEMA_VERSION = 3;
 export const CHAT_SCHEMA_VERSION = 1;
+export const CHAT_MESSAGE_MAX_LENGTH = 10000;
 
 // === Lighting Custom Schema ===
 export const LightingCustomSchema = z.object({
@@ -29,6 +36,46 @@ export const LightingCustomSchema = z.object({
 
 export type LightingCustom = z.infer<typeof LightingCustomSchema>;
 
+// === Session Follow Schema ===
+export const SessionFollowSchema = z.object({
+	mode: z.enum(["recent", "pinned", "allowlist"]).default("recent"),
+	pinnedSessionKey: z.string().nullable().default(null),
+	allowlist: z.array(z.string()).default([]),
+});
+
+export type SessionFollow = z.infer<typeof SessionFollowSchema>;
+
+export function createDefaultSessionFollow(): SessionFollow {
+	return { mode: "recent", pinnedSessionKey: null, allowlist: [] };
+}
+
+// === Gateway Profile Schema ===
+function isWebSocketUrl(value: string): boolean {
+	try {
+		const { protocol } = new URL(value);
+		return protocol === "ws:" || protocol === "wss:";
+	} catch {
+		return false;
+	}
+}
+
+export const GatewayProfileSchema = z
+	.object({
+		id: z.string().min(1).max(64),
+		name: z.string().trim().min(1, "is required").max(GATEWAY_PROFILE_NAME_MAX),
+		url: z.string().trim().max(2048).refine(isWebSocketUrl, "must be a ws:// or wss:// URL"),
+		tokenSource: z.enum(["openclaw", "env", "file", "none"]).default("none"),
+		tokenRef: z.string().trim().max(4096).default(""),
+		caFile: z.string().trim().max(4096).default(""),
+		allowInsecureTls: z.boolean().default(false),
+	})
+	.refine((p) => (p.tokenSource !== "env" && p.tokenSource !== "file") || p.tokenRef.length > 0, {
+		message: "needs a variable name or file path",
+		path: ["tokenRef"],
+	});
+
+export type GatewayProfile = z.infer<typeof GatewayProfileSchema>;
+
 // === Settings Schema ===
 export const SettingsSchema = z.object({
 	schemaVersion: z.number().default(SETTINGS_SCHEMA_VERSION),
@@ -51,10 +98,15 @@ export const SettingsSchema = z.object({
 	ttsEnabled: z.boolean().default(TTS_ENABLED_DEFAULT),
 	ttsEngine: z.enum(["web-speech", "kokoro"]).default(TTS_ENGINE_DEFAULT),
 	ttsVoice: z.string().default(TTS_VOICE_DEFAULT),
+	sentimentEnabled: z.boolean().default(SENTIMENT_ENABLED_DEFAULT),
+	sentimentStrength: z.number().min(SENTIMENT_STRENGTH_MIN).max(SENTIMENT_STRENGTH_MAX).default(SENTIMENT_STRENGTH_DEFAULT),
 	vrmModelPath: z.string().optional(),
 	scale: z.number().min(SCALE_MIN).max(SCALE_MAX).default(SCALE_DEFAULT),
 	lightingProfile: z.string().default(LIGHTING_PROFILE_DEFAULT),
 	lightingCustom: LightingCustomSchema.optional(),
+	sessionFollow: SessionFollowSchema.default(createDefaultSessionFollow),
+	gatewayProfiles: z.array(GatewayProfileSchema).max(GATEWAY_PROFILES_MAX).default([]),
+	activeGatewayProfileId: z.string().nullable().default(null),
 });
 
 export type Settings = z.infer<typeof SettingsSchema>;
@@ -64,8 +116,12 @@ export const ChatMessageSchema = z.object({
 	id: z.string(),
 	timestamp: z.number().int().positive(),
 	role: z.enum(["user", "assistant"]),
-	text: z.string().max(10000),
+	text: z.string().max(CHAT_MESSAGE_MAX_LENGTH),
 	agentId: z.string().optional(),
+	/** Gateway profile id; absent for the built-in gateway. */
+	gateway: z.string().optional(),
+	/** Sending client, for user messages that came from elsewhere. */
+	source: z.string().max(100).optional(),
 });
 
 export const ChatHistorySchema = z.object({
@@ -93,8 +149,13 @@ export function createDefaultSettings(): Settings {
 		ttsEnabled: TTS_ENABLED_DEFAULT,
 		ttsEngine: TTS_ENGINE_DEFAULT,
 		ttsVoice: TTS_VOICE_DEFAULT,
+		sentimentEnabled: SENTIMENT_ENABLED_DEFAULT,
+		sentimentStrength: SENTIMENT_STRENGTH_DEFAULT,
 		scale: SCALE_DEFAULT,
 		lightingProfile: LIGHTING_PROFILE_DEFAULT,
+		sessionFollow: createDefaultSessionFollow(),
+		gatewayProfiles: [],
+		activeGatewayProfileId: null,
 	};
 }
 
@@ -12,7 +12,10 @@ const IPC = {
 	SET_CAMERA_ZOOM: "avatar:set-camera-zoom",
 	AGENT_STATE: "avatar:agent-state",
 	GET_ANIMATIONS_CONFIG: "avatar:get-animations-config",
+	AGENT_APPEARANCE: "avatar:agent-appearance",
+	GET_AGENT_APPEARANCE: "avatar:get-agent-appearance",
 	SEND_CHAT: "avatar:send-chat",
+	ABORT_RUN: "avatar:abort-run",
 	TOGGLE_CHAT: "avatar:toggle-chat",
 	CHAT_VISIBILITY: "avatar:chat-visibility",
 	// Settings
@@ -40,6 +43,10 @@ const IPC = {
 	GET_TTS_VOICE: "avatar:tts-get-voice",
 	SET_TTS_VOICE: "avatar:tts-set-voice",
 	TTS_VOICE_CHANGED: "avatar:tts-voice-changed",
+	// Sentiment-driven expressions
+	GET_SENTIMENT_CONFIG: "avatar:sentiment-get-config",
+	SENTIMENT_ENABLED_CHANGED: "avatar:sentiment-enabled-changed",
+	SENTIMENT_STRENGTH_CHANGED: "avatar:sentiment-strength-changed",
 	// Debug
 	DEBUG_LOG: "avatar:debug-log",
 	// Cursor tracking
@@ -51,6 +58,26 @@ const IPC = {
 	// Scale
 	SCALE_CHANGED: "avatar:scale-changed",
 	GET_SCALE: "avatar:get-scale",
+	// Lighting
+	GET_LIGHTING_PROFILE: "avatar:get-lighting-profile",
+	LIGHTING_PROFILE_CHANGED: "avatar:lighting-profile-changed",
+	GET_LIGHTING_CUSTOM: "avatar:get-lighting-custom",
+	LIGHTING_CUSTOM_CHANGED: "avatar:lighting-custom-changed",
+	// Gateway connection status
+	GATEWAY_STATUS: "gateway:status",
+	GET_GATEWAY_STATUS: "gateway:get-status",
+	RETRY_GATEWAY: "gateway:retry",
+	// Exec approvals
+	GET_APPROVALS: "chat:get-approvals",
+	APPROVALS_CHANGED: "chat:approvals-changed",
+	// Plugin commands
+	SET_EXPRESSION: "avatar:set-expression",
+	PLAY_GESTURE: "avatar:play-gesture",
+	SAY_TEXT: "avatar:say-text",
+	RENDER_STATS: "avatar:render-stats",
+	LOOK_AT: "avatar:look-at",
+	CAPABILITIES: "avatar:capabilities",
+	RENDERER_HEARTBEAT: "avatar:renderer-heartbeat",
 };
 
 contextBridge.exposeInMainWorld("avatarBridge", {
@@ -107,8 +134,23 @@ contextBridge.exposeInMainWorld("avatarBridge", {
 		});
 	},
 
+	getAgentAppearance() {
+		return ipcRenderer.invoke(IPC.GET_AGENT_APPEARANCE);
+	},
+
+	onAgentAppearance(callback) {
+		ipcRenderer.removeAllListeners(IPC.AGENT_APPEARANCE);
+		ipcRenderer.on(IPC.AGENT_APPEARANCE, (_event, appearance) => {
+			callback(appearance);
+		});
+	},
+
 	sendChat(text) {
-		ipcRenderer.send(IPC.SEND_CHAT, text);
+		return ipcRenderer.invoke(IPC.SEND_CHAT, text);
+	},
+
+	abortRun(runId) {
+		return ipcRenderer.invoke(IPC.ABORT_RUN, runId);
 	},
 
 	toggleChat() {
@@ -222,6 +264,25 @@ contextBridge.exposeInMainWorld("avatarBridge", {
 		});
 	},
 
+	// Sentiment-driven expressions
+	getSentimentConfig() {
+		return ipcRenderer.invoke(IPC.GET_SENTIMENT_CONFIG);
+	},
+
+	onSentimentEnabledChanged(callback) {
+		ipcRenderer.removeAllListeners(IPC.SENTIMENT_ENABLED_CHANGED);
+		ipcRenderer.on(IPC.SENTIMENT_ENABLED_CHANGED, (_event, enabled) => {
+			callback(enabled);
+		});
+	},
+
+	onSentimentStrengthChanged(callback) {
+		ipcRenderer.removeAllListeners(IPC.SENTIMENT_STRENGTH_CHANGED);
+		ipcRenderer.on(IPC.SENTIMENT_STRENGTH_CHANGED, (_event, strength) => {
+			callback(strength);
+		});
+	},
+
 	openSettings() {
 		ipcRenderer.send(IPC.OPEN_SETTINGS);
 	},
@@ -238,6 +299,98 @@ contextBridge.exposeInMainWorld("avatarBridge", {
 		});
 	},
 
+	// Lighting
+	getLightingProfile() {
+		return ipcRenderer.invoke(IPC.GET_LIGHTING_PROFILE);
+	},
+
+	getLightingCustom() {
+		return ipcRenderer.invoke(IPC.GET_LIGHTING_CUSTOM);
+	},
+
+	onLightingProfileChanged(callback) {
+		ipcRenderer.removeAllListeners(IPC.LIGHTING_PROFILE_CHANGED);
+		ipcRenderer.on(IPC.LIGHTING_PROFILE_CHANGED, (_event, profile) => {
+			callback(profile);
+		});
+	},
+
+	onLightingCustomChanged(callback) {
+		ipcRenderer.removeAllListeners(IPC.LIGHTING_CUSTOM_CHANGED);
+		ipcRenderer.on(IPC.LIGHTING_CUSTOM_CHANGED, (_event, custom) => {
+			callback(custom);
+		});
+	},
+
+	// Gateway connection status
+	getGatewayStatus() {
+		return ipcRenderer.invoke(IPC.GET_GATEWAY_STATUS);
+	},
+
+	onGatewayStatus(callback) {
+		ipcRenderer.removeAllListeners(IPC.GATEWAY_STATUS);
+		ipcRenderer.on(IPC.GATEWAY_STATUS, (_event, status) => {
+			callback(status);
+		});
+	},
+
+	retryGateway() {
+		ipcRenderer.send(IPC.RETRY_GATEWAY);
+	},
+
+	// Exec approvals (avatar only reacts; decisions happen in the chat window)
+	getApprovals() {
+		return ipcRenderer.invoke(IPC.GET_APPROVALS);
+	},
+
+	onApprovalsChanged(callback) {
+		ipcRenderer.removeAllListeners(IPC.APPROVALS_CHANGED);
+		ipcRenderer.on(IPC.APPROVALS_CHANGED, (_event, approvals) => {
+			callback(approvals);
+		});
+	},
+
+	// Plugin commands
+	onSetExpression(callback) {
+		ipcRenderer.removeAllListeners(IPC.SET_EXPRESSION);
+		ipcRenderer.on(IPC.SET_EXPRESSION, (_event, expression, holdMs) => {
+			callback(expression, holdMs);
+		});
+	},
+
+	onPlayGesture(callback) {
+		ipcRenderer.removeAllListeners(IPC.PLAY_GESTURE);
+		ipcRenderer.on(IPC.PLAY_GESTURE, (_event, name) => {
+			callback(name);
+		});
+	},
+
+	onSayText(callback) {
+		ipcRenderer.removeAllListeners(IPC.SAY_TEXT);
+		ipcRenderer.on(IPC.SAY_TEXT, (_event, text) => {
+			callback(text);
+		});
+	},
+
+	onLookAt(callback) {
+		ipcRenderer.removeAllListeners(IPC.LOOK_AT);
+		ipcRenderer.on(IPC.LOOK_AT, (_event, target, holdMs) => {
+			callback(target, holdMs);
+		});
+	},
+
+	reportCapabilities(capabilities) {
+		ipcRenderer.send(IPC.CAPABILITIES, capabilities);
+	},
+
+	reportRenderStats(stats) {
+		ipcRenderer.send(IPC.RENDER_STATS, stats);
+	},
+
+	heartbeat(problem) {
+		ipcRenderer.send(IPC.RENDERER_HEARTBEAT, problem);
+	},
+
 	// Cursor tracking
 	startCursorTracking() {
 		ipcRenderer.send(IPC.START_CURSOR_TRACKING);
@@ -0,0 +1,100 @@
+import type { BrowserWindow } from "electron";
+import {
+	RENDERER_HEARTBEAT_MS,
+	RENDERER_RELOAD_DELAY_MS,
+	RENDERER_STARTUP_GRACE_MS,
+} from "../shared/config.js";
+import type { WatchdogConfig } from "../shared/types.js";
+
+export interface RendererWatchdog {
+	/** Heartbeat from the renderer; `problem` is set when it runs but can't do its job. */
+	beat(problem: string | null): void;
+	/** Since the last heartbeat; null before the first. */
+	lastBeatAgoMs(): number | null;
+	configure(config: WatchdogConfig): void;
+	dispose(): void;
+}
+
+/**
+ * Reload a window whose renderer crashed or, when it sends heartbeats, went
+ * quiet or reported a fault for longer than the configured timeout.
+ * Hidden windows are throttled by Chromium, so silence only counts while visible.
+ */
+export function watchRenderer(options: {
+	win: BrowserWindow;
+	config: WatchdogConfig;
+	/** Without heartbeats only crashes are caught. */
+	heartbeats: boolean;
+	/** Called before the reload, with a short reason for the log. */
+	onRecover: (reason: string) => void;
+}): RendererWatchdog {
+	const { win, heartbeats, onRecover } = options;
+	let config = options.config;
+	let disposed = false;
+	let reloading = false;
+	let lastBeatAt: number | null = null;
+	let problem: string | null = null;
+	// A healthy heartbeat pushes this out; a fresh renderer gets extra time to load its model
+	let deadline = Date.now() + RENDERER_STARTUP_GRACE_MS;
+
+	function recover(reason: string, hung: boolean): void {
+		reloading = true;
+		onRecover(reason);
+		// A hung renderer can't unload itself; kill it so the reload gets a new process
+		if (hung) win.webContents.forcefullyCrashRenderer();
+		setTimeout(() => {
+			reloading = false;
+			if (disposed || win.isDestroyed()) return;
+			lastBeatAt = null;
+			problem = null;
+			deadline = Date.now() + RENDERER_STARTUP_GRACE_MS;
+			win.webContents.reload();
+		}, RENDERER_RELOAD_DELAY_MS);
+	}
+
+	function check(): void {
+		if (disposed || reloading || !config.enabled || win.isDestroyed() || !win.isVisible()) return;
+		const now = Date.now();
+		if (now <= deadline) return;
+		if (problem) {
+			recover(problem, false);
+		} else {
+			const quietMs = now - (lastBeatAt ?? deadline);
+			recover(`stopped responding (no heartbeat for ${Math.round(quietMs / 1000)}s)`, true);
+		}
+	}
+
+	win.webContents.on("render-process-gone", (_event, details) => {
+		// Our own kill, or the window closing on quit
+		if (disposed || reloading || details.reason === "clean-exit" || win.isDestroyed()) return;
+		recover(`crashed (${details.reason}, exit code ${details.exitCode})`, false);
+	});
+
+	// Coming back from hidden: timers were throttled, so start the clock again
+	win.on("show", () => {
+		deadline = Math.max(deadline, Date.now() + config.rendererTimeoutMs);
+	});
+
+	const timer = heartbeats ? setInterval(check, RENDERER_HEARTBEAT_MS) : null;
+
+	return {
+		beat(reported) {
+			if (disposed || reloading) return;
+			const now = Date.now();
+			lastBeatAt = now;
+			problem = reported;
+			if (!reported) deadline = now + config.rendererTimeoutMs;
+		},
+
+		lastBeatAgoMs: () => (lastBeatAt === null ? null : Date.now() - lastBeatAt),
+
+		configure(next) {
+			config = next;
+		},
+
+		dispose() {
+			disposed = true;
+			if (timer) clearInterval(timer);
+		},
+	};
+}
@@ -0,0 +1,72 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { z } from "zod";
+import { SENTIMENT_LEXICON_FILE } from "../shared/config.js";
+import type { SentimentLexicon } from "../shared/types.js";
+import { getOpenclawDir } from "./persistence/index.js";
+
+const FORBIDDEN_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const ExpressionSchema = z.enum(["neutral", "happy", "sad", "angry", "surprised", "relaxed", "asking"]);
+
+/**
+ * User lexicon file, e.g.
+ * { "words": { "regrettably": "sad", "shipped": { "expression": "happy", "weight": 2 } } }
+ */
+const LexiconEntrySchema = z.union([
+	ExpressionSchema,
+	z.object({
+		expression: ExpressionSchema,
+		weight: z.number().min(0).max(5).default(1),
+	}),
+]);
+
+const LexiconFileSchema = z.object({
+	words: z.record(z.string(), z.unknown()).default({}),
+});
+
+export function getSentimentLexiconPath(): string {
+	return path.join(getOpenclawDir(), SENTIMENT_LEXICON_FILE);
+}
+
+/**
+ * Read the user's additions to the built-in sentiment lexicon.
+ * A missing file is normal; invalid entries are dropped individually.
+ */
+export function loadUserSentimentLexicon(): SentimentLexicon {
+	const lexicon: SentimentLexicon = Object.create(null);
+
+	let raw: string;
+	try {
+		raw = fs.readFileSync(getSentimentLexiconPath(), "utf-8");
+	} catch {
+		return lexicon;
+	}
+
+	let file: z.infer<typeof LexiconFileSchema>;
+	try {
+		const result = LexiconFileSchema.safeParse(JSON.parse(raw));
+		if (!result.success) {
+			console.warn(`flawed-avatar: ignoring sentiment lexicon: ${result.error.issues[0]?.message ?? "invalid"}`);
+			return lexicon;
+		}
+		file = result.data;
+	} catch {
+		console.warn("flawed-avatar: ignoring sentiment lexicon: malformed JSON");
+		return lexicon;
+	}
+
+	for (const [word, value] of Object.entries(file.words)) {
+		const key = word.trim().toLowerCase();
+		if (!key || FORBIDDEN_KEYS.has(key)) continue;
+		const entry = LexiconEntrySchema.safeParse(value);
+		if (!entry.success) {
+			console.warn(`flawed-avatar: ignoring sentiment word '${word}'`);
+			continue;
+		}
+		lexicon[key] = typeof entry.data === "string"
+			? { expression: entry.data, weight: 1 }
+			: entry.data;
+	}
+	return lexicon;
+}
@@ -0,0 +1,76 @@
+import * as readline from "node:readline";
+import {
+	createRpcPeer,
+	RpcError,
+	RPC_ERROR,
+	type AvatarRpcEvents,
+	type AvatarRpcMethods,
+	type LaunchConfig,
+} from "../shared/service-rpc.js";
+
+export type ServiceRequestHandlers = {
+	[M in keyof AvatarRpcMethods]: (
+		params: AvatarRpcMethods[M]["params"],
+	) => AvatarRpcMethods[M]["result"] | Promise<AvatarRpcMethods[M]["result"]>;
+};
+
+export interface ServiceChannel {
+	emit<E extends keyof AvatarRpcEvents>(event: E, params: AvatarRpcEvents[E]): void;
+	close(): void;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseLaunchConfig(params: unknown): LaunchConfig | null {
+	if (!isObject(params)) return null;
+	if (params.authToken !== undefined && typeof params.authToken !== "string") return null;
+	return params as LaunchConfig;
+}
+
+/**
+ * JSON-RPC link to the plugin service over stdin/stdout.
+ * The service's `init` notification (launch config) arrives first.
+ */
+export function createServiceChannel(options: {
+	onInit: (config: LaunchConfig) => void;
+	handlers: ServiceRequestHandlers;
+}): ServiceChannel {
+	const { onInit, handlers } = options;
+
+	const peer = createRpcPeer({
+		send: (line) => {
+			process.stdout.write(line + "\n");
+		},
+		onRequest: (method, params) => {
+			if (!Object.hasOwn(handlers, method)) {
+				throw new RpcError(`unknown method ${method}`, RPC_ERROR.METHOD_NOT_FOUND);
+			}
+			const handler = handlers[method as keyof AvatarRpcMethods] as (params: unknown) => unknown;
+			return handler(params);
+		},
+		onNotification: (method, params) => {
+			if (method !== "init") return;
+			const config = parseLaunchConfig(params);
+			if (config) onInit(config);
+			else console.warn("flawed-avatar: ignoring malformed launch config");
+		},
+	});
+
+	const rl = readline.createInterface({ input: process.stdin });
+	rl.on("line", (line) => {
+		if (line.trim()) peer.handleLine(line);
+	});
+
+	return {
+		emit(event, params) {
+			peer.notify(event, params);
+		},
+
+		close() {
+			rl.close();
+			peer.close("avatar shutting down");
+		},
+	};
+}
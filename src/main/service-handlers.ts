@@ -0,0 +1,211 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { app, screen } from "electron";
+import { IPC } from "../shared/ipc-channels.js";
+import { COMMAND_EXPRESSION_HOLD_MS, COMMAND_HOLD_MAX_MS, LOOK_AT_HOLD_MS, SNAP_CORNERS } from "../shared/config.js";
+import { RpcError, RPC_ERROR, type AvatarRuntimeState, type ConfigDelta } from "../shared/service-rpc.js";
+import type { AvatarCapabilities, GazeTarget, SnapCorner } from "../shared/types.js";
+import type { ServiceRequestHandlers } from "./service-channel.js";
+import type { WindowManager } from "./window-manager.js";
+import {
+	applyOpacity,
+	applyTtsEnabled,
+	applyTtsEngine,
+	applyTtsVoice,
+	applyVrmModel,
+	snapWindowTo,
+} from "./window.js";
+import { listAvatarModels, resolveAvatarModel } from "./model-library.js";
+
+export interface ServiceRuntime {
+	wm: WindowManager;
+	getState(): AvatarRuntimeState;
+	/** What the loaded model supports, as last reported by the renderer. */
+	getCapabilities(): AvatarCapabilities;
+	/** Apply edited plugin config; returns the keys that took effect. */
+	applyConfig(delta: ConfigDelta): string[];
+}
+
+function invalid(message: string): RpcError {
+	return new RpcError(message, RPC_ERROR.INVALID_PARAMS);
+}
+
+const WS_URL_RE = /^wss?:\/\//;
+
+/** The same checks the service makes on the launch arguments, plus the file must exist. */
+function parseVrmPath(value: string): string {
+	if (value.split(/[\\/]/).includes("..")) throw invalid("vrmPath must not contain '..' segments");
+	const resolved = path.resolve(value);
+	if (!fs.existsSync(resolved)) throw invalid(`vrmPath not found: ${resolved}`);
+	return resolved;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+function parseHoldMs(value: unknown, fallback: number): number {
+	if (value === undefined) return fallback;
+	if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+		throw invalid("holdMs must be a positive number");
+	}
+	return Math.min(value, COMMAND_HOLD_MAX_MS);
+}
+
+// Gaze is normalized against the primary work area, like cursor tracking
+function gazeTargetAt(x: number, y: number): GazeTarget {
+	const { width, height } = screen.getPrimaryDisplay().workAreaSize;
+	return { x, y, screenWidth: width, screenHeight: height };
+}
+
+/**
+ * Answers the plugin service's requests by driving the same setters the
+ * context menu and settings window use, so every UI stays in sync.
+ */
+export function createServiceHandlers(getRuntime: () => ServiceRuntime | null): ServiceRequestHandlers {
+	function requireRuntime(): ServiceRuntime {
+		const runtime = getRuntime();
+		if (!runtime) throw new RpcError("avatar is still starting", RPC_ERROR.INTERNAL);
+		return runtime;
+	}
+
+	return {
+		show: () => {
+			const rt = requireRuntime();
+			rt.wm.showAvatar();
+			return rt.getState();
+		},
+
+		hide: () => {
+			const rt = requireRuntime();
+			rt.wm.hideAll();
+			return rt.getState();
+		},
+
+		getState: () => requireRuntime().getState(),
+
+		switchModel: (params) => {
+			if (!isObject(params) || typeof params.model !== "string") throw invalid("model must be a string");
+			const rt = requireRuntime();
+			const vrmPath = resolveAvatarModel(params.model);
+			if (!vrmPath) throw invalid(`no model '${params.model}' (give a .vrm path or a library name)`);
+			applyVrmModel(rt.wm.avatarWin, vrmPath);
+			return { vrmPath };
+		},
+
+		listModels: () => listAvatarModels(),
+
+		getCapabilities: () => requireRuntime().getCapabilities(),
+
+		setExpression: (params) => {
+			const rt = requireRuntime();
+			const { expressions } = rt.getCapabilities();
+			if (!isObject(params) || !expressions.includes(params.expression)) {
+				throw invalid(`expression must be one of ${expressions.join(", ")}`);
+			}
+			const holdMs = parseHoldMs(params.holdMs, COMMAND_EXPRESSION_HOLD_MS);
+			rt.wm.sendToAvatar(IPC.SET_EXPRESSION, params.expression, holdMs);
+			return null;
+		},
+
+		playGesture: (params) => {
+			if (!isObject(params) || typeof params.name !== "string") throw invalid("name must be a string");
+			const rt = requireRuntime();
+			const wanted = params.name.trim().toLowerCase();
+			const name = rt.getCapabilities().gestures.find((clip) => clip.toLowerCase() === wanted);
+			if (!name) throw invalid(`no animation clip '${params.name}' for this model`);
+			rt.wm.sendToAvatar(IPC.PLAY_GESTURE, name);
+			return null;
+		},
+
+		lookAt: (params) => {
+			if (!isObject(params)) throw invalid("expected x and y, or window");
+			const rt = requireRuntime();
+			const holdMs = parseHoldMs(params.holdMs, LOOK_AT_HOLD_MS);
+
+			if ("window" in params) {
+				if (params.window === "cursor") {
+					rt.wm.sendToAvatar(IPC.LOOK_AT, null, 0);
+					return null;
+				}
+				if (params.window !== "chat") throw invalid("window must be chat or cursor");
+				if (!rt.wm.chatVisible) throw invalid("the chat window is not open");
+				const bounds = rt.wm.chatWin.getBounds();
+				const target = gazeTargetAt(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2);
+				rt.wm.sendToAvatar(IPC.LOOK_AT, target, holdMs);
+				return null;
+			}
+
+			const { x, y } = params as Record<string, unknown>;
+			if (typeof x !== "number" || typeof y !== "number" || !Number.isFinite(x) || !Number.isFinite(y)) {
+				throw invalid("x and y must be screen coordinates");
+			}
+			rt.wm.sendToAvatar(IPC.LOOK_AT, gazeTargetAt(x, y), holdMs);
+			return null;
+		},
+
+		setTts: (params) => {
+			if (!isObject(params)) throw invalid("expected enabled, engine and/or voice");
+			const { enabled, engine, voice } = params;
+			if (enabled !== undefined && typeof enabled !== "boolean") throw invalid("enabled must be a boolean");
+			if (engine !== undefined && engine !== "web-speech" && engine !== "kokoro") {
+				throw invalid("engine must be web-speech or kokoro");
+			}
+			if (voice !== undefined && typeof voice !== "string") throw invalid("voice must be a string");
+
+			const rt = requireRuntime();
+			const win = rt.wm.avatarWin;
+			// Engine before voice: voice names are engine-specific
+			if (engine !== undefined) applyTtsEngine(win, engine);
+			if (voice !== undefined) applyTtsVoice(win, voice);
+			if (enabled !== undefined) applyTtsEnabled(win, enabled);
+			return rt.getState();
+		},
+
+		say: (params) => {
+			if (!isObject(params) || typeof params.text !== "string" || !params.text.trim()) {
+				throw invalid("text must be a non-empty string");
+			}
+			requireRuntime().wm.sendToAvatar(IPC.SAY_TEXT, params.text.trim());
+			return null;
+		},
+
+		snapTo: (params) => {
+			if (!isObject(params) || !(SNAP_CORNERS as readonly unknown[]).includes(params.corner)) {
+				throw invalid(`corner must be one of ${SNAP_CORNERS.join(", ")}`);
+			}
+			snapWindowTo(requireRuntime().wm.avatarWin, params.corner as SnapCorner);
+			return null;
+		},
+
+		setOpacity: (params) => {
+			if (!isObject(params) || typeof params.opacity !== "number" || !Number.isFinite(params.opacity)) {
+				throw invalid("opacity must be a number");
+			}
+			const rt = requireRuntime();
+			applyOpacity(rt.wm.avatarWin, params.opacity);
+			return rt.getState();
+		},
+
+		applyConfig: (params) => {
+			if (!isObject(params)) throw invalid("expected changed config keys");
+			if (params.gatewayUrl != null) {
+				if (typeof params.gatewayUrl !== "string") throw invalid("gatewayUrl must be a string");
+				if (!WS_URL_RE.test(params.gatewayUrl)) throw invalid("gatewayUrl must start with ws:// or wss://");
+			}
+			const delta: ConfigDelta = { ...params };
+			if (params.vrmPath != null) {
+				if (typeof params.vrmPath !== "string") throw invalid("vrmPath must be a string");
+				delta.vrmPath = parseVrmPath(params.vrmPath);
+			}
+			// agents and toolActivities are validated entry by entry, as at launch
+			return { applied: requireRuntime().applyConfig(delta) };
+		},
+
+		shutdown: () => {
+			// Answer first so the service knows the request landed
+			setImmediate(() => app.quit());
+			return null;
+		},
+	};
+}
@@ -24,6 +24,11 @@ const IPC = {
 	TTS_ENGINE_CHANGED: "avatar:tts-engine-changed",
 	SET_TTS_VOICE: "avatar:tts-set-voice",
 	TTS_VOICE_CHANGED: "avatar:tts-voice-changed",
+	// Sentiment-driven expressions
+	SET_SENTIMENT_ENABLED: "avatar:sentiment-set-enabled",
+	SENTIMENT_ENABLED_CHANGED: "avatar:sentiment-enabled-changed",
+	SET_SENTIMENT_STRENGTH: "avatar:sentiment-set-strength",
+	SENTIMENT_STRENGTH_CHANGED: "avatar:sentiment-strength-changed",
 	// Idle timeout
 	SET_IDLE_TIMEOUT: "chat:set-idle-timeout",
 	IDLE_TIMEOUT_CHANGED: "chat:idle-timeout-changed",
@@ -36,6 +41,12 @@ const IPC = {
 	VRM_MODEL_CHANGED: "avatar:vrm-model-changed",
 	// Chat
 	CLEAR_CHAT_HISTORY: "chat:clear-history",
+	// Gateway profiles
+	GET_GATEWAY_PROFILES: "gateway:get-profiles",
+	SAVE_GATEWAY_PROFILE: "gateway:save-profile",
+	DELETE_GATEWAY_PROFILE: "gateway:delete-profile",
+	SWITCH_GATEWAY_PROFILE: "gateway:switch-profile",
+	GATEWAY_PROFILES_CHANGED: "gateway:profiles-changed",
 	// Snap
 	SNAP_TO: "avatar:snap-to",
 };
@@ -46,6 +57,10 @@ contextBridge.exposeInMainWorld("settingsBridge", {
 		return ipcRenderer.invoke(IPC.GET_SETTINGS);
 	},
 
+	getGatewayProfiles() {
+		return ipcRenderer.invoke(IPC.GET_GATEWAY_PROFILES);
+	},
+
 	// Setters (fire-and-forget send)
 	setOpacity(v) {
 		ipcRenderer.send(IPC.SET_OPACITY, v);
@@ -71,6 +86,14 @@ contextBridge.exposeInMainWorld("settingsBridge", {
 		ipcRenderer.send(IPC.SET_TTS_VOICE, v);
 	},
 
+	setSentimentEnabled(v) {
+		ipcRenderer.send(IPC.SET_SENTIMENT_ENABLED, v);
+	},
+
+	setSentimentStrength(v) {
+		ipcRenderer.send(IPC.SET_SENTIMENT_STRENGTH, v);
+	},
+
 	setIdleTimeout(ms) {
 		ipcRenderer.send(IPC.SET_IDLE_TIMEOUT, ms);
 	},
@@ -96,6 +119,18 @@ contextBridge.exposeInMainWorld("settingsBridge", {
 		ipcRenderer.send(IPC.CLEAR_CHAT_HISTORY);
 	},
 
+	saveGatewayProfile(profile) {
+		return ipcRenderer.invoke(IPC.SAVE_GATEWAY_PROFILE, profile);
+	},
+
+	deleteGatewayProfile(id) {
+		ipcRenderer.send(IPC.DELETE_GATEWAY_PROFILE, id);
+	},
+
+	switchGatewayProfile(id) {
+		ipcRenderer.send(IPC.SWITCH_GATEWAY_PROFILE, id);
+	},
+
 	close() {
 		ipcRenderer.send(IPC.CLOSE_SETTINGS);
 	},
@@ -131,6 +166,16 @@ contextBridge.exposeInMainWorld("settingsBridge", {
 		ipcRenderer.on(IPC.TTS_VOICE_CHANGED, (_event, v) => cb(v));
 	},
 
+	onSentimentEnabledChanged(cb) {
+		ipcRenderer.removeAllListeners(IPC.SENTIMENT_ENABLED_CHANGED);
+		ipcRenderer.on(IPC.SENTIMENT_ENABLED_CHANGED, (_event, v) => cb(v));
+	},
+
+	onSentimentStrengthChanged(cb) {
+		ipcRenderer.removeAllListeners(IPC.SENTIMENT_STRENGTH_CHANGED);
+		ipcRenderer.on(IPC.SENTIMENT_STRENGTH_CHANGED, (_event, v) => cb(v));
+	},
+
 	onIdleTimeoutChanged(cb) {
 		ipcRenderer.removeAllListeners(IPC.IDLE_TIMEOUT_CHANGED);
 		ipcRenderer.on(IPC.IDLE_TIMEOUT_CHANGED, (_event, ms) => cb(ms));
@@ -150,4 +195,9 @@ contextBridge.exposeInMainWorld("settingsBridge", {
 		ipcRenderer.removeAllListeners(IPC.VRM_MODEL_CHANGED);
 		ipcRenderer.on(IPC.VRM_MODEL_CHANGED, (_event, path) => cb(path));
 	},
+
+	onGatewayProfilesChanged(cb) {
+		ipcRenderer.removeAllListeners(IPC.GATEWAY_PROFILES_CHANGED);
+		ipcRenderer.on(IPC.GATEWAY_PROFILES_CHANGED, (_event, snapshot) => cb(snapshot));
+	},
 });
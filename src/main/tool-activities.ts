@@ -0,0 +1,85 @@
+import { z } from "zod";
+import type { ToolActivity } from "../shared/types.js";
+
+const TOOL_EXPRESSIONS = ["neutral", "happy", "sad", "angry", "surprised", "relaxed", "asking"] as const;
+
+/**
+ * One entry of the tool mapping from the plugin config.
+ * `match` is a tool name or glob (`*` and `?`), matched case-insensitively.
+ */
+export const ToolActivityRuleSchema = z.object({
+	match: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+	clip: z.string().min(1).optional(),
+	expression: z.enum(TOOL_EXPRESSIONS).optional(),
+	caption: z.string().min(1).max(60),
+});
+
+export type ToolActivityRule = z.infer<typeof ToolActivityRuleSchema>;
+
+/** Built-in mapping, consulted after any user rules. Clips must be bundled (checked by the build). */
+export const DEFAULT_TOOL_ACTIVITIES: readonly ToolActivityRule[] = [
+	{ match: ["exec", "bash", "shell", "process", "*_exec"], clip: "acknowledging", caption: "Running a command" },
+	{ match: ["web_search", "*search*"], clip: "look away gesture", expression: "surprised", caption: "Searching the web" },
+	{ match: ["web_fetch", "browser", "fetch*"], clip: "look away gesture", caption: "Browsing" },
+	{ match: ["read", "*_read", "ls", "find", "grep"], clip: "thinking", caption: "Reading files" },
+	{ match: ["write", "edit", "apply_patch", "*_write"], clip: "lengthy head nod", expression: "relaxed", caption: "Editing files" },
+	{ match: ["memory_*"], expression: "relaxed", caption: "Remembering" },
+	{ match: ["message", "*_send"], expression: "happy", caption: "Sending a message" },
+];
+
+const FALLBACK_CAPTION = "Using a tool";
+
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split("")
+		.map((ch) => {
+			if (ch === "*") return ".*";
+			if (ch === "?") return ".";
+			return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Validate user tool rules from the launch config. Invalid rules are dropped individually
+ * so one typo doesn't disable the whole mapping.
+ */
+export function parseToolActivities(parsed: unknown): ToolActivityRule[] {
+	if (!Array.isArray(parsed)) return [];
+
+	const rules: ToolActivityRule[] = [];
+	parsed.forEach((entry, index) => {
+		const result = ToolActivityRuleSchema.safeParse(entry);
+		if (result.success) {
+			rules.push(result.data);
+		} else {
+			console.warn(`flawed-avatar: ignoring invalid tool activity #${index}: ${result.error.issues[0]?.message ?? "invalid"}`);
+		}
+	});
+	return rules;
+}
+
+/**
+ * Build a tool-name resolver: user rules first, then the defaults.
+ * Unknown tools still get a generic caption so the tool card always has text.
+ */
+export function createToolActivityResolver(userRules: readonly ToolActivityRule[]): (name: string) => ToolActivity {
+	const compiled = [...userRules, ...DEFAULT_TOOL_ACTIVITIES].map((rule) => ({
+		rule,
+		patterns: (Array.isArray(rule.match) ? rule.match : [rule.match]).map(globToRegExp),
+	}));
+	const cache = new Map<string, ToolActivity>();
+
+	return (name: string): ToolActivity => {
+		const cached = cache.get(name);
+		if (cached) return cached;
+
+		const hit = compiled.find(({ patterns }) => patterns.some((re) => re.test(name)));
+		const activity: ToolActivity = hit
+			? { caption: hit.rule.caption, clip: hit.rule.clip, expression: hit.rule.expression }
+			: { caption: FALLBACK_CAPTION };
+		cache.set(name, activity);
+		return activity;
+	};
+}
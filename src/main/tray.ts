@@ -1,21 +1,228 @@
-import { Tray, Menu, app } from "electron";
+import { Tray, Menu, app, nativeImage, type MenuItemConstructorOptions, type NativeImage } from "electron";
 import * as path from "node:path";
 import { fileURLToPath } from "node:url";
 import { showVrmPicker } from "./window.js";
 import type { WindowManager } from "./window-manager.js";
+import type {
+	GatewayProfilesSnapshot,
+	GatewayStatus,
+	SessionFollow,
+	SessionInfo,
+	SessionsSnapshot,
+} from "../shared/types.js";
+import { describeGatewayStatus, canRetryGateway } from "../shared/gateway-status.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 let tray: Tray | null = null;
 
-export function createTray(wm: WindowManager): Tray {
+export interface TraySessionControls {
+	getSnapshot(): SessionsSnapshot;
+	setFollow(follow: SessionFollow): void;
+	refresh(): void;
+	/** Register a callback fired when sessions or the follow mode change. */
+	onChange(cb: () => void): void;
+}
+
+export interface TrayConnectionControls {
+	getStatus(): GatewayStatus;
+	retryNow(): void;
+	/** Register a callback fired on every connection status change. */
+	onChange(cb: () => void): void;
+}
+
+export interface TrayGatewayControls {
+	getSnapshot(): GatewayProfilesSnapshot;
+	/** Reconnect to a saved profile, or the built-in gateway with null. */
+	switchTo(id: string | null): void;
+	/** Register a callback fired when profiles are edited or another one is picked. */
+	onChange(cb: () => void): void;
+}
+
+export interface TrayControls {
+	sessions?: TraySessionControls;
+	connection?: TrayConnectionControls;
+	gateways?: TrayGatewayControls;
+}
+
+// Badge colors (RGB) for non-connected states; connected shows the plain icon
+const BADGE_COLORS: Partial<Record<GatewayStatus["state"], [number, number, number]>> = {
+	connecting: [240, 180, 40],
+	handshaking: [240, 180, 40],
+	pairing: [240, 180, 40],
+	reconnecting: [240, 180, 40],
+	"auth-failed": [230, 60, 60],
+};
+
+const TRAY_ICON_SIZE = 32;
+
+/** Draw a filled status dot in the bottom-right corner of the tray icon. */
+function createBadgedIcon(base: NativeImage, [r, g, b]: [number, number, number]): NativeImage {
+	const resized = base.resize({ width: TRAY_ICON_SIZE, height: TRAY_ICON_SIZE });
+	const bitmap = Buffer.from(resized.toBitmap());
+	const radius = TRAY_ICON_SIZE * 0.22;
+	const cx = TRAY_ICON_SIZE - radius - 1;
+	const cy = TRAY_ICON_SIZE - radius - 1;
+
+	for (let y = 0; y < TRAY_ICON_SIZE; y++) {
+		for (let x = 0; x < TRAY_ICON_SIZE; x++) {
+			if ((x - cx) ** 2 + (y - cy) ** 2 > radius ** 2) continue;
+			// toBitmap() is BGRA
+			const i = (y * TRAY_ICON_SIZE + x) * 4;
+			bitmap[i] = b;
+			bitmap[i + 1] = g;
+			bitmap[i + 2] = r;
+			bitmap[i + 3] = 255;
+		}
+	}
+	return nativeImage.createFromBitmap(bitmap, { width: TRAY_ICON_SIZE, height: TRAY_ICON_SIZE });
+}
+
+function sessionLabel(session: SessionInfo): string {
+	return session.displayName && session.displayName !== session.key
+		? `${session.displayName} (${session.key})`
+		: session.key;
+}
+
+function buildSessionMenu(controls: TraySessionControls): MenuItemConstructorOptions[] {
+	const { sessions, currentSessionKey, follow } = controls.getSnapshot();
+
+	const pinItems: MenuItemConstructorOptions[] = sessions.map((session) => ({
+		label: `Pin to ${sessionLabel(session)}`,
+		type: "radio",
+		checked: follow.mode === "pinned" && follow.pinnedSessionKey === session.key,
+		click() {
+			controls.setFollow({ ...follow, mode: "pinned", pinnedSessionKey: session.key });
+		},
+	}));
+
+	const allowlistItems: MenuItemConstructorOptions[] = sessions.map((session) => ({
+		label: sessionLabel(session),
+		type: "checkbox",
+		checked: follow.allowlist.includes(session.key),
+		click(item) {
+			const allowlist = item.checked
+				? [...follow.allowlist, session.key]
+				: follow.allowlist.filter((key) => key !== session.key);
+			controls.setFollow({ ...follow, allowlist });
+		},
+	}));
+
+	return [
+		{
+			label: currentSessionKey ? `Following: ${currentSessionKey}` : "No active session",
+			enabled: false,
+		},
+		{ type: "separator" },
+		{
+			label: "Follow Most Recent",
+			type: "radio",
+			checked: follow.mode === "recent",
+			click() {
+				controls.setFollow({ ...follow, mode: "recent" });
+			},
+		},
+		{
+			label: "Allowlisted Sessions Only",
+			type: "radio",
+			checked: follow.mode === "allowlist",
+			enabled: follow.allowlist.length > 0,
+			click() {
+				controls.setFollow({ ...follow, mode: "allowlist" });
+			},
+		},
+		...pinItems,
+		{ type: "separator" },
+		{
+			label: "Allowlist",
+			enabled: allowlistItems.length > 0,
+			submenu: allowlistItems,
+		},
+		{
+			label: "Refresh Sessions",
+			click() {
+				controls.refresh();
+			},
+		},
+	];
+}
+
+function buildGatewayMenu(controls: TrayGatewayControls, wm: WindowManager): MenuItemConstructorOptions[] {
+	const { profiles, activeProfileId, builtinUrl } = controls.getSnapshot();
+	return [
+		{
+			label: `Default (${builtinUrl})`,
+			type: "radio",
+			checked: activeProfileId === null,
+			click() {
+				controls.switchTo(null);
+			},
+		},
+		...profiles.map((profile): MenuItemConstructorOptions => ({
+			label: `${profile.name} (${profile.url})`,
+			type: "radio",
+			checked: profile.id === activeProfileId,
+			click() {
+				controls.switchTo(profile.id);
+			},
+		})),
+		{ type: "separator" },
+		{
+			label: "Manage Profiles\u2026",
+			click() {
+				wm.showSettings();
+			},
+		},
+	];
+}
+
+export function createTray(wm: WindowManager, controls: TrayControls = {}): Tray {
+	const { sessions, connection, gateways } = controls;
 	const iconPath = path.join(__dirname, "..", "..", "..", "assets", "icon.png");
-	tray = new Tray(iconPath);
+	const baseIcon = nativeImage.createFromPath(iconPath);
+	const badgedIcons = new Map<GatewayStatus["state"], NativeImage>();
+	tray = new Tray(baseIcon);
 	tray.setToolTip("Flawed Avatar");
 
+	function updateStatusIndicator(): void {
+		if (!connection || !tray) return;
+		const status = connection.getStatus();
+		tray.setToolTip(`Flawed Avatar \u2014 ${describeGatewayStatus(status)}`);
+
+		const color = BADGE_COLORS[status.state];
+		if (!color || baseIcon.isEmpty()) {
+			tray.setImage(baseIcon);
+			return;
+		}
+		let icon = badgedIcons.get(status.state);
+		if (!icon) {
+			icon = createBadgedIcon(baseIcon, color);
+			badgedIcons.set(status.state, icon);
+		}
+		tray.setImage(icon);
+	}
+
+	function buildConnectionItems(): MenuItemConstructorOptions[] {
+		if (!connection) return [];
+		const status = connection.getStatus();
+		return [
+			{ label: describeGatewayStatus(status), enabled: false },
+			...(canRetryGateway(status)
+				? [{
+					label: "Reconnect Now",
+					click() {
+						connection.retryNow();
+					},
+				} satisfies MenuItemConstructorOptions]
+				: []),
+			{ type: "separator" },
+		];
+	}
+
 	function rebuildMenu(): void {
 		const menu = Menu.buildFromTemplate([
+			...buildConnectionItems(),
 			{
 				label: wm.avatarWin.isVisible() ? "Hide Avatar" : "Show Avatar",
 				click() {
@@ -39,6 +246,12 @@ export function createTray(wm: WindowManager): Tray {
 					wm.showSettings();
 				},
 			},
+			...(gateways
+				? [{ label: "Gateway", submenu: buildGatewayMenu(gateways, wm) } satisfies MenuItemConstructorOptions]
+				: []),
+			...(sessions
+				? [{ label: "Session", submenu: buildSessionMenu(sessions) } satisfies MenuItemConstructorOptions]
+				: []),
 			{ type: "separator" },
 			{
 				label: "Quit",
@@ -51,6 +264,13 @@ export function createTray(wm: WindowManager): Tray {
 	}
 
 	rebuildMenu();
+	updateStatusIndicator();
+	sessions?.onChange(rebuildMenu);
+	gateways?.onChange(rebuildMenu);
+	connection?.onChange(() => {
+		updateStatusIndicator();
+		rebuildMenu();
+	});
 
 	tray.on("click", () => {
 		if (wm.avatarWin.isVisible()) {
@@ -12,8 +12,13 @@ import {
 	OPACITY_MAX,
 	SCALE_MIN,
 	SCALE_MAX,
+	SENTIMENT_STRENGTH_MIN,
+	SENTIMENT_STRENGTH_MAX,
+	LIGHTING_PROFILES,
+	SNAP_CORNERS,
 } from "../shared/config.js";
 import { IPC } from "../shared/ipc-channels.js";
+import type { SnapCorner, TtsEngine } from "../shared/types.js";
 import {
 	loadSettings,
 	savePosition,
@@ -23,6 +28,8 @@ import {
 	saveTtsEnabled,
 	saveTtsEngine,
 	saveTtsVoice,
+	saveSentimentEnabled,
+	saveSentimentStrength,
 	saveVrmModelPath,
 	saveScale,
 	saveLightingProfile,
@@ -34,6 +41,8 @@ import {
 	getTtsEnabled,
 	getTtsEngine,
 	getTtsVoice,
+	getSentimentEnabled,
+	getSentimentStrength,
 	getVrmModelPath,
 	getScale,
 	getLightingProfile,
@@ -51,6 +60,7 @@ import {
 	type LightingCustom,
 } from "./persistence/index.js";
 import { broadcastToSettings } from "./settings-broadcast.js";
+import { loadUserSentimentLexicon } from "./sentiment-lexicon.js";
 import { clampBoundsToWorkArea } from "./display-utils.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -70,7 +80,7 @@ function getDefaultPosition(): { x: number; y: number } {
 	};
 }
 
-function getSnapPosition(corner: "bottomRight" | "bottomLeft" | "topRight" | "topLeft"): { x: number; y: number } {
+function getSnapPosition(corner: SnapCorner): { x: number; y: number } {
 	const display = screen.getPrimaryDisplay();
 	const { width, height } = display.workAreaSize;
 	const margin = 20;
@@ -87,6 +97,48 @@ function getSnapPosition(corner: "bottomRight" | "bottomLeft" | "topRight" | "to
 	}
 }
 
+// Setting changes shared by the IPC handlers, the context menu and plugin commands:
+// persist, apply, then tell the avatar renderer and the settings window
+
+export function applyOpacity(win: BrowserWindow, opacity: number): number {
+	const clamped = Math.max(OPACITY_MIN, Math.min(OPACITY_MAX, opacity));
+	saveOpacity(clamped);
+	win.setOpacity(clamped);
+	win.webContents.send(IPC.OPACITY_CHANGED, clamped);
+	broadcastToSettings(IPC.OPACITY_CHANGED, clamped);
+	return clamped;
+}
+
+export function applyTtsEnabled(win: BrowserWindow, enabled: boolean): void {
+	saveTtsEnabled(enabled);
+	win.webContents.send(IPC.TTS_ENABLED_CHANGED, enabled);
+	broadcastToSettings(IPC.TTS_ENABLED_CHANGED, enabled);
+}
+
+export function applyTtsEngine(win: BrowserWindow, engine: TtsEngine): void {
+	saveTtsEngine(engine);
+	win.webContents.send(IPC.TTS_ENGINE_CHANGED, engine);
+	broadcastToSettings(IPC.TTS_ENGINE_CHANGED, engine);
+}
+
+export function applyTtsVoice(win: BrowserWindow, voice: string): void {
+	saveTtsVoice(voice);
+	win.webContents.send(IPC.TTS_VOICE_CHANGED, voice);
+	broadcastToSettings(IPC.TTS_VOICE_CHANGED, voice);
+}
+
+export function applyVrmModel(win: BrowserWindow, vrmPath: string): void {
+	saveVrmModelPath(vrmPath);
+	win.webContents.send(IPC.VRM_MODEL_CHANGED, vrmPath);
+	broadcastToSettings(IPC.VRM_MODEL_CHANGED, vrmPath);
+}
+
+export function snapWindowTo(win: BrowserWindow, corner: SnapCorner): void {
+	const pos = getSnapPosition(corner);
+	win.setPosition(pos.x, pos.y);
+	savePosition(pos.x, pos.y);
+}
+
 export async function showVrmPicker(win: BrowserWindow): Promise<string | null> {
 	const modelsDir = path.join(__dirname, "..", "..", "..", "assets", "models");
 	const result = await dialog.showOpenDialog(win, {
@@ -97,9 +149,7 @@ export async function showVrmPicker(win: BrowserWindow): Promise<string | null>
 	});
 	if (!result.canceled && result.filePaths.length > 0) {
 		const selectedPath = result.filePaths[0];
-		saveVrmModelPath(selectedPath);
-		win.webContents.send(IPC.VRM_MODEL_CHANGED, selectedPath);
-		broadcastToSettings(IPC.VRM_MODEL_CHANGED, selectedPath);
+		applyVrmModel(win, selectedPath);
 		return selectedPath;
 	}
 	return null;
@@ -171,6 +221,7 @@ export function createOverlayWindow(): BrowserWindow {
 		IPC.SET_TTS_ENGINE, IPC.SET_TTS_VOICE, IPC.START_CURSOR_TRACKING,
 		IPC.STOP_CURSOR_TRACKING, IPC.SNAP_TO,
 		IPC.SET_SCALE, IPC.SET_LIGHTING_PROFILE, IPC.SET_LIGHTING_CUSTOM,
+		IPC.SET_SENTIMENT_ENABLED, IPC.SET_SENTIMENT_STRENGTH,
 	];
 	for (const ch of listenChannels) ipcMain.removeAllListeners(ch);
 
@@ -178,7 +229,7 @@ export function createOverlayWindow(): BrowserWindow {
 		IPC.GET_CAMERA_ZOOM, IPC.GET_SETTINGS, IPC.GET_CHAT_HISTORY,
 		IPC.GET_IDLE_TIMEOUT, IPC.GET_TTS_ENABLED, IPC.GET_TTS_ENGINE,
 		IPC.GET_TTS_VOICE, IPC.GET_SCALE, IPC.GET_LIGHTING_PROFILE,
-		IPC.PICK_VRM_FILE,
+		IPC.GET_LIGHTING_CUSTOM, IPC.PICK_VRM_FILE, IPC.GET_SENTIMENT_CONFIG,
 	];
 	for (const ch of handleChannels) ipcMain.removeHandler(ch);
 
@@ -244,6 +295,8 @@ export function createOverlayWindow(): BrowserWindow {
 			ttsEnabled: getTtsEnabled(),
 			ttsEngine: getTtsEngine(),
 			ttsVoice: getTtsVoice(),
+			sentimentEnabled: getSentimentEnabled(),
+			sentimentStrength: getSentimentStrength(),
 			lightingProfile: getLightingProfile(),
 			lightingCustom: getLightingCustom(),
 			vrmModelPath: getVrmModelPath(),
@@ -282,11 +335,7 @@ export function createOverlayWindow(): BrowserWindow {
 	// IPC: opacity
 	ipcMain.on(IPC.SET_OPACITY, (_event, opacity: unknown) => {
 		if (typeof opacity !== "number" || !Number.isFinite(opacity)) return;
-		const clamped = Math.max(OPACITY_MIN, Math.min(OPACITY_MAX, opacity));
-		saveOpacity(clamped);
-		win.setOpacity(clamped);
-		win.webContents.send(IPC.OPACITY_CHANGED, clamped);
-		broadcastToSettings(IPC.OPACITY_CHANGED, clamped);
+		applyOpacity(win, opacity);
 	});
 
 	// IPC: TTS enabled
@@ -296,9 +345,7 @@ export function createOverlayWindow(): BrowserWindow {
 
 	ipcMain.on(IPC.SET_TTS_ENABLED, (_event, enabled: unknown) => {
 		if (typeof enabled !== "boolean") return;
-		saveTtsEnabled(enabled);
-		win.webContents.send(IPC.TTS_ENABLED_CHANGED, enabled);
-		broadcastToSettings(IPC.TTS_ENABLED_CHANGED, enabled);
+		applyTtsEnabled(win, enabled);
 	});
 
 	// IPC: TTS engine
@@ -308,9 +355,7 @@ export function createOverlayWindow(): BrowserWindow {
 
 	ipcMain.on(IPC.SET_TTS_ENGINE, (_event, engine: unknown) => {
 		if (engine !== "web-speech" && engine !== "kokoro") return;
-		saveTtsEngine(engine);
-		win.webContents.send(IPC.TTS_ENGINE_CHANGED, engine);
-		broadcastToSettings(IPC.TTS_ENGINE_CHANGED, engine);
+		applyTtsEngine(win, engine);
 	});
 
 	// IPC: TTS voice
@@ -320,9 +365,31 @@ export function createOverlayWindow(): BrowserWindow {
 
 	ipcMain.on(IPC.SET_TTS_VOICE, (_event, voice: unknown) => {
 		if (typeof voice !== "string") return;
-		saveTtsVoice(voice);
-		win.webContents.send(IPC.TTS_VOICE_CHANGED, voice);
-		broadcastToSettings(IPC.TTS_VOICE_CHANGED, voice);
+		applyTtsVoice(win, voice);
+	});
+
+	// IPC: sentiment-driven expressions (lexicon re-read so edits apply on next load)
+	ipcMain.handle(IPC.GET_SENTIMENT_CONFIG, () => {
+		return {
+			enabled: getSentimentEnabled(),
+			strength: getSentimentStrength(),
+			lexicon: loadUserSentimentLexicon(),
+		};
+	});
+
+	ipcMain.on(IPC.SET_SENTIMENT_ENABLED, (_event, enabled: unknown) => {
+		if (typeof enabled !== "boolean") return;
+		saveSentimentEnabled(enabled);
+		win.webContents.send(IPC.SENTIMENT_ENABLED_CHANGED, enabled);
+		broadcastToSettings(IPC.SENTIMENT_ENABLED_CHANGED, enabled);
+	});
+
+	ipcMain.on(IPC.SET_SENTIMENT_STRENGTH, (_event, strength: unknown) => {
+		if (typeof strength !== "number" || !Number.isFinite(strength)) return;
+		const clamped = Math.max(SENTIMENT_STRENGTH_MIN, Math.min(SENTIMENT_STRENGTH_MAX, strength));
+		saveSentimentStrength(clamped);
+		win.webContents.send(IPC.SENTIMENT_STRENGTH_CHANGED, clamped);
+		broadcastToSettings(IPC.SENTIMENT_STRENGTH_CHANGED, clamped);
 	});
 
 	// IPC: scale
@@ -344,18 +411,22 @@ export function createOverlayWindow(): BrowserWindow {
 	});
 
 	ipcMain.on(IPC.SET_LIGHTING_PROFILE, (_event, profile: unknown) => {
-		if (typeof profile !== "string") return;
+		if (typeof profile !== "string" || !(LIGHTING_PROFILES as readonly string[]).includes(profile)) return;
 		saveLightingProfile(profile);
 		win.webContents.send(IPC.LIGHTING_PROFILE_CHANGED, profile);
 		broadcastToSettings(IPC.LIGHTING_PROFILE_CHANGED, profile);
 	});
 
 	// IPC: lighting custom
+	ipcMain.handle(IPC.GET_LIGHTING_CUSTOM, () => {
+		return getLightingCustom();
+	});
+
 	ipcMain.on(IPC.SET_LIGHTING_CUSTOM, (_event, custom: unknown) => {
 		if (!custom || typeof custom !== "object") return;
 		const c = custom as Record<string, unknown>;
 		if (typeof c.intensity !== "number" || !Number.isFinite(c.intensity) || c.intensity < 0 || c.intensity > 2) return;
-		if (typeof c.color !== "string") return;
+		if (typeof c.color !== "string" || !/^#[0-9a-f]{6}$/i.test(c.color)) return;
 		if (typeof c.ambient !== "number" || !Number.isFinite(c.ambient) || c.ambient < 0 || c.ambient > 1) return;
 		const validated: LightingCustom = { intensity: c.intensity, color: c.color, ambient: c.ambient };
 		saveLightingCustom(validated);
@@ -375,17 +446,11 @@ export function createOverlayWindow(): BrowserWindow {
 	}
 
 	function setOpacity(opacity: number): void {
-		const clamped = Math.max(OPACITY_MIN, Math.min(OPACITY_MAX, opacity));
-		saveOpacity(clamped);
-		win.setOpacity(clamped);
-		win.webContents.send(IPC.OPACITY_CHANGED, clamped);
-		broadcastToSettings(IPC.OPACITY_CHANGED, clamped);
+		applyOpacity(win, opacity);
 	}
 
-	function snapTo(corner: "bottomRight" | "bottomLeft" | "topRight" | "topLeft"): void {
-		const pos = getSnapPosition(corner);
-		win.setPosition(pos.x, pos.y);
-		savePosition(pos.x, pos.y);
+	function snapTo(corner: SnapCorner): void {
+		snapWindowTo(win, corner);
 	}
 
 	function setIdleTimeoutMenu(ms: number): void {
@@ -400,10 +465,8 @@ export function createOverlayWindow(): BrowserWindow {
 	}
 
 	// Helper functions for TTS settings
-	function setTtsEngine(engine: "web-speech" | "kokoro"): void {
-		saveTtsEngine(engine);
-		win.webContents.send(IPC.TTS_ENGINE_CHANGED, engine);
-		broadcastToSettings(IPC.TTS_ENGINE_CHANGED, engine);
+	function setTtsEngine(engine: TtsEngine): void {
+		applyTtsEngine(win, engine);
 	}
 
 	// IPC: cursor tracking for eye gaze
@@ -462,8 +525,8 @@ export function createOverlayWindow(): BrowserWindow {
 
 	// IPC: snap to corner
 	ipcMain.on(IPC.SNAP_TO, (_event, corner: unknown) => {
-		if (corner !== "bottomRight" && corner !== "bottomLeft" && corner !== "topRight" && corner !== "topLeft") return;
-		snapTo(corner);
+		if (!(SNAP_CORNERS as readonly unknown[]).includes(corner)) return;
+		snapTo(corner as SnapCorner);
 	});
 
 	// IPC: show context menu from renderer settings button
@@ -0,0 +1,99 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { z } from "zod";
+
+export type PluginConfig = Record<string, unknown>;
+
+const CONFIG_DIR = path.join(os.homedir(), ".openclaw");
+const CONFIG_FILE = "openclaw.json";
+// Editors often write a file in several steps; wait for them to settle
+const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Validates single config keys against the `configSchema` in openclaw.plugin.json,
+ * so one bad edit is rejected without throwing away the rest of the file.
+ */
+export interface PluginConfigValidator {
+	/** Returns an error message, or null when the value is valid for that key. */
+	check(key: string, value: unknown): string | null;
+}
+
+export function createPluginConfigValidator(pluginDir: string): PluginConfigValidator {
+	const manifest = JSON.parse(fs.readFileSync(path.join(pluginDir, "openclaw.plugin.json"), "utf-8"));
+	const properties: Record<string, unknown> = manifest?.configSchema?.properties ?? {};
+	const schemas = new Map<string, z.ZodType>();
+	for (const [key, schema] of Object.entries(properties)) {
+		schemas.set(key, z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]));
+	}
+
+	return {
+		check(key, value) {
+			const schema = schemas.get(key);
+			if (!schema) return `unknown key '${key}'`;
+			const result = schema.safeParse(value);
+			if (result.success) return null;
+			const issue = result.error.issues[0];
+			const where = [key, ...(issue?.path ?? [])].join(".");
+			return `${where}: ${issue?.message ?? "invalid"}`;
+		},
+	};
+}
+
+/** Top-level keys whose values differ (added, removed or changed). */
+export function diffPluginConfig(prev: PluginConfig, next: PluginConfig): string[] {
+	const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+	return [...keys].filter((key) => JSON.stringify(prev[key]) !== JSON.stringify(next[key]));
+}
+
+/** This plugin's entry in ~/.openclaw/openclaw.json; null when the file can't be read. */
+function readPluginConfig(pluginId: string): PluginConfig | null {
+	try {
+		const raw = fs.readFileSync(path.join(CONFIG_DIR, CONFIG_FILE), "utf-8");
+		const config = JSON.parse(raw)?.plugins?.entries?.[pluginId]?.config;
+		return typeof config === "object" && config !== null && !Array.isArray(config) ? config : {};
+	} catch {
+		return null;
+	}
+}
+
+export interface PluginConfigWatcher {
+	close(): void;
+}
+
+/**
+ * Re-read the plugin's config whenever openclaw.json changes.
+ * Unreadable or half-written files are skipped; the next write triggers again.
+ */
+export function watchPluginConfig(options: {
+	pluginId: string;
+	onChange: (config: PluginConfig) => void;
+}): PluginConfigWatcher {
+	const { pluginId, onChange } = options;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let watcher: fs.FSWatcher | null = null;
+
+	// Watch the directory: editors that save by rename would orphan a file watch
+	try {
+		watcher = fs.watch(CONFIG_DIR, (_event, filename) => {
+			if (filename !== CONFIG_FILE) return;
+			if (timer) clearTimeout(timer);
+			timer = setTimeout(() => {
+				timer = null;
+				const config = readPluginConfig(pluginId);
+				if (config) onChange(config);
+			}, WATCH_DEBOUNCE_MS);
+		});
+	} catch {
+		// No ~/.openclaw yet: nothing to watch, config stays as loaded
+	}
+
+	return {
+		close() {
+			if (timer) clearTimeout(timer);
+			timer = null;
+			watcher?.close();
+			watcher = null;
+		},
+	};
+}
@@ -25,6 +25,7 @@ export {
 // TTS services
 export { createWebSpeechTTSService } from "./web-speech-tts.js";
 export { createKokoroTTSService, disposeKokoroLoader } from "./kokoro-tts-service.js";
+export { getKokoroStallMs } from "./kokoro-model-loader.js";
 
 // Factory
 export { createTTSServiceFactory, createTTSServiceWithFallback, type TTSServiceFactory } from "./tts-service-factory.js";
@@ -20,6 +20,9 @@ export interface KokoroLoader {
 	/** Check if model is loaded and ready. */
 	isLoaded(): boolean;
 
+	/** How long the oldest unanswered generate call has waited, in ms (0 when idle). */
+	pendingForMs(): number;
+
 	/** Dispose the worker and free resources. */
 	dispose(): void;
 }
@@ -27,6 +30,7 @@ export interface KokoroLoader {
 type Pending = {
 	resolve: (result: { audio: Float32Array; sampleRate: number }) => void;
 	reject: (error: Error) => void;
+	startedAt: number;
 };
 
 let instance: KokoroLoader | null = null;
@@ -107,7 +111,7 @@ function createLoader(): KokoroLoader {
 			const id = crypto.randomUUID();
 			return new Promise<{ audio: Float32Array; sampleRate: number }>(
 				(resolve, reject) => {
-					pending.set(id, { resolve, reject });
+					pending.set(id, { resolve, reject, startedAt: performance.now() });
 					worker.postMessage({ type: "generate", id, text, voice });
 				},
 			);
@@ -116,6 +120,12 @@ function createLoader(): KokoroLoader {
 		isLoading: () => loading,
 		isLoaded: () => ready,
 
+		pendingForMs() {
+			// Map iteration follows insertion order: the first entry is the oldest
+			const oldest = pending.values().next().value;
+			return oldest ? performance.now() - oldest.startedAt : 0;
+		},
+
 		dispose() {
 			disposed = true;
 			ready = false;
@@ -140,6 +150,14 @@ export function getKokoroLoader(): KokoroLoader {
 	return instance;
 }
 
+/**
+ * How long Kokoro has been stuck on a request, without starting the worker
+ * when it isn't in use.
+ */
+export function getKokoroStallMs(): number {
+	return instance?.pendingForMs() ?? 0;
+}
+
 /**
  * Dispose the singleton loader (for cleanup).
  */
@@ -6,6 +6,8 @@ import type { AgentPhase } from "../../shared/types.js";
 
 export interface AnimationLibrary {
 	getClips(phase: AgentPhase): THREE.AnimationClip[];
+	/** Find a clip by file name (case-insensitive) in any phase, or by its full "phase/name". */
+	findClip(name: string): THREE.AnimationClip | null;
 	retargetToVrm(vrm: VRM): void;
 	isLoaded(): boolean;
 	dispose(): void;
@@ -32,7 +34,7 @@ export async function loadAnimationLibrary(
 	let clipsByPhase = new Map<AgentPhase, THREE.AnimationClip[]>();
 
 	// Load all FBX files
-	const phases: AgentPhase[] = ["idle", "thinking", "speaking", "working"];
+	const phases: AgentPhase[] = ["idle", "thinking", "speaking", "working", "error"];
 	for (const phase of phases) {
 		const paths = clipPaths[phase] ?? [];
 		const files: { filePath: string; clipName: string }[] = [];
@@ -85,6 +87,19 @@ export async function loadAnimationLibrary(
 			return clipsByPhase.get(phase) ?? [];
 		},
 
+		findClip(name: string): THREE.AnimationClip | null {
+			const wanted = name.toLowerCase();
+			for (const clips of clipsByPhase.values()) {
+				for (const clip of clips) {
+					const clipName = clip.name.toLowerCase();
+					if (clipName === wanted || clipName.slice(clipName.indexOf("/") + 1) === wanted) {
+						return clip;
+					}
+				}
+			}
+			return null;
+		},
+
 		retargetToVrm(newVrm: VRM): void {
 			retargetAll(newVrm);
 		},
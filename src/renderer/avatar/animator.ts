@@ -1,6 +1,6 @@
 import * as THREE from "three";
 import type { VRM, VRMHumanBoneName } from "@pixiv/three-vrm";
-import { createExpressionController, type Expression } from "./expressions.js";
+import { createExpressionController, supportedExpressions, type Expression } from "./expressions.js";
 import { createLipSync, type LipSync } from "./lip-sync.js";
 import { loadAnimationLibrary, type AnimationLibrary } from "./animation-loader.js";
 import { createStateMachine, type AnimationStateMachine } from "./state-machine.js";
@@ -24,6 +24,11 @@ import {
 	SPEAKING_NOD_AMP,
 	SPEAKING_NOD_FREQ,
 	WORKING_TILT,
+	PONDER_TILT,
+	PONDER_FREQ,
+	PONDER_CHARS_FULL,
+	PONDER_DECAY,
+	SENTIMENT_BLEND_RATE,
 } from "../../shared/config.js";
 
 /**
@@ -48,7 +53,15 @@ export interface Animator {
 	update(delta: number, elapsed: number): void;
 	setVrm(vrm: VRM): void;
 	setExpression(expression: Expression): void;
+	/** Blend a mood over the base expression at the given weight (null fades it out). */
+	setMood(expression: Expression | null, weight?: number): void;
 	setPhase(phase: AgentPhase): void;
+	/** Prefer a named clip within the current phase (null to clear). Call after setPhase. */
+	setActivityClip(name: string | null): void;
+	/** New reasoning arrived; pondering head motion grows with how much, then fades. */
+	notifyReasoning(chars: number): void;
+	/** Play a one-shot gesture clip by name (ignored until animations are loaded). */
+	playGesture(name: string): void;
 	feedLipSyncText(text: string): void;
 	stopLipSync(): void;
 	isSpeaking(): boolean;
@@ -60,6 +73,15 @@ export interface Animator {
 		windowWidth: number,
 		windowHeight: number,
 	): void;
+	/** Look at a screen point for a while (null goes back to following the cursor). */
+	lookAt(
+		target: { x: number; y: number; screenWidth: number; screenHeight: number } | null,
+		seconds?: number,
+	): void;
+	/** Expressions the current model can show. */
+	getExpressions(): Expression[];
+	/** Names of the clips loaded for the current model, usable with playGesture. */
+	getGestureNames(): string[];
 	setGazeTrackingMultiplier(multiplier: number): void;
 	setHovering(hovering: boolean): void;
 	getEyeGaze(): EyeGazeController;
@@ -85,7 +107,16 @@ export function createAnimator(vrm: VRM): Animator {
 	let animationsLoaded = false;
 	let initPromise: Promise<void> | null = null;
 	let pendingPhase: AgentPhase | null = null;
+	let activityClip: string | null = null;
+	// Mood overlay eases toward its target; a new mood waits for the old one to fade out
+	let moodExpression: Expression | null = null;
+	let moodWeight = 0;
+	let moodTarget: { expression: Expression | null; weight: number } = { expression: null, weight: 0 };
 	let phaseGazeMultiplier = 1.0;
+	// Pondering: 0..1 activity from streamed reasoning, and the head roll applied last frame
+	let ponderActivity = 0;
+	let ponderRoll = 0;
+	let ponderHeadZ = Number.NaN;
 
 	const BLINK_CLOSE_DURATION = 0.06; // 60ms
 	const BLINK_OPEN_DURATION = 0.1; // 100ms
@@ -153,11 +184,62 @@ export function createAnimator(vrm: VRM): Animator {
 		}
 	}
 
+	/** Head roll on top of clips or procedural sway while the model reasons. */
+	function updatePondering(delta: number, elapsed: number): void {
+		const head = getBone(currentVrm, "head");
+		if (!head) return;
+		// Untouched since last frame means nothing rewrote the head: take our roll back out first
+		if (head.rotation.z === ponderHeadZ) head.rotation.z -= ponderRoll;
+		ponderActivity = Math.max(0, ponderActivity - PONDER_DECAY * delta);
+		ponderRoll = currentPhase === "thinking"
+			? Math.sin(elapsed * PONDER_FREQ) * PONDER_TILT * ponderActivity
+			: 0;
+		head.rotation.z += ponderRoll;
+		ponderHeadZ = head.rotation.z;
+	}
+
+	function updateMood(delta: number): void {
+		const step = SENTIMENT_BLEND_RATE * delta;
+		if (moodExpression !== moodTarget.expression) {
+			moodWeight = Math.max(0, moodWeight - step);
+			if (moodWeight > 0) return;
+			moodExpression = moodTarget.expression;
+		}
+		const target = moodExpression ? moodTarget.weight : 0;
+		moodWeight = moodWeight < target
+			? Math.min(target, moodWeight + step)
+			: Math.max(target, moodWeight - step);
+	}
+
+	function disposeAnimationState(): void {
+		if (stateMachine) {
+			stateMachine.dispose();
+			stateMachine = null;
+		}
+		if (mixer) {
+			mixer.stopAllAction();
+			mixer.uncacheRoot(mixer.getRoot());
+			mixer = null;
+		}
+	}
+
 	async function doInitAnimations(clipPaths: Record<AgentPhase, string[]>): Promise<void> {
-		library = await loadAnimationLibrary(clipPaths, currentVrm);
+		const loadedFor = currentVrm;
+		const nextLibrary = await loadAnimationLibrary(clipPaths, loadedFor);
+
+		// VRM swapped while loading: retarget to the model that is now live
+		if (loadedFor !== currentVrm) {
+			nextLibrary.retargetToVrm(currentVrm);
+		}
+
+		// Replace any previously loaded library (e.g. per-agent animation set)
+		disposeAnimationState();
+		library?.dispose();
+		library = nextLibrary;
 
 		if (!library.isLoaded()) {
 			// No FBX files loaded at all - stay on procedural fallback
+			animationsLoaded = false;
 			return;
 		}
 
@@ -172,6 +254,7 @@ export function createAnimator(vrm: VRM): Animator {
 		} else {
 			stateMachine.setPhase(currentPhase);
 		}
+		stateMachine.setPreferredClip(activityClip);
 	}
 
 	return {
@@ -183,6 +266,7 @@ export function createAnimator(vrm: VRM): Animator {
 				updateBreathing(elapsed);
 				updateHeadSway(elapsed);
 			}
+			updatePondering(delta, elapsed);
 
 			// 2. Blinking (procedural expression)
 			updateBlinking(delta, elapsed);
@@ -202,11 +286,15 @@ export function createAnimator(vrm: VRM): Animator {
 			// 5. Base expressions
 			expressionCtrl.update(delta);
 
-			// 6. Expression overlay from hover
+			// 6. Expression overlays from hover and reply tone
 			const overlay = hoverAwareness.getExpressionOverlay();
 			if (overlay) {
 				expressionCtrl.applyOverlay(overlay.expression, overlay.weight);
 			}
+			updateMood(delta);
+			if (moodExpression && moodWeight > 0) {
+				expressionCtrl.applyOverlay(moodExpression, moodWeight);
+			}
 
 			// 7. Lip sync (viseme expressions)
 			lipSync.update(delta);
@@ -214,15 +302,7 @@ export function createAnimator(vrm: VRM): Animator {
 
 		setVrm(newVrm: VRM): void {
 			// Dispose old animation resources
-			if (stateMachine) {
-				stateMachine.dispose();
-				stateMachine = null;
-			}
-			if (mixer) {
-				mixer.stopAllAction();
-				mixer.uncacheRoot(mixer.getRoot());
-				mixer = null;
-			}
+			disposeAnimationState();
 
 			currentVrm = newVrm;
 			blinkPhase = "idle";
@@ -232,6 +312,8 @@ export function createAnimator(vrm: VRM): Animator {
 			eyeGaze.setVrm(newVrm);
 			eyeSaccade.reset();
 			hoverAwareness.reset();
+			ponderRoll = 0;
+			ponderHeadZ = Number.NaN;
 
 			// Re-retarget and rebuild state machine if library is available
 			if (library && library.isLoaded()) {
@@ -246,6 +328,7 @@ export function createAnimator(vrm: VRM): Animator {
 				} else {
 					stateMachine.setPhase(currentPhase);
 				}
+				stateMachine.setPreferredClip(activityClip);
 			} else {
 				animationsLoaded = false;
 			}
@@ -255,7 +338,12 @@ export function createAnimator(vrm: VRM): Animator {
 			expressionCtrl.setExpression(expression);
 		},
 
+		setMood(expression: Expression | null, weight = 1): void {
+			moodTarget = { expression, weight: expression ? Math.max(0, Math.min(1, weight)) : 0 };
+		},
+
 		setPhase(phase: AgentPhase): void {
+			if (phase !== currentPhase) activityClip = null;
 			currentPhase = phase;
 
 			// Set phase-specific gaze multiplier
@@ -268,6 +356,22 @@ export function createAnimator(vrm: VRM): Animator {
 			stateMachine.setPhase(phase);
 		},
 
+		setActivityClip(name: string | null): void {
+			activityClip = name;
+			stateMachine?.setPreferredClip(name);
+		},
+
+		notifyReasoning(chars: number): void {
+			ponderActivity = Math.min(1, ponderActivity + chars / PONDER_CHARS_FULL);
+		},
+
+		playGesture(name: string): void {
+			if (!stateMachine || !animationsLoaded) return;
+			if (!stateMachine.playGesture(name)) {
+				console.warn(`[animator] Unknown gesture clip: ${name}`);
+			}
+		},
+
 		feedLipSyncText(text: string): void {
 			lipSync.feedText(text);
 		},
@@ -281,12 +385,14 @@ export function createAnimator(vrm: VRM): Animator {
 		},
 
 		async initAnimations(clipPaths: Record<AgentPhase, string[]>): Promise<void> {
-			if (initPromise) return initPromise;
-			initPromise = doInitAnimations(clipPaths);
+			// Serialize loads so a newer clip set always wins over an in-flight one
+			const previous = initPromise ?? Promise.resolve();
+			const next = previous.catch(() => {}).then(() => doInitAnimations(clipPaths));
+			initPromise = next;
 			try {
-				await initPromise;
+				await next;
 			} finally {
-				initPromise = null;
+				if (initPromise === next) initPromise = null;
 			}
 		},
 
@@ -303,6 +409,30 @@ export function createAnimator(vrm: VRM): Animator {
 			eyeGaze.setScreenPosition(x, y, windowWidth, windowHeight);
 		},
 
+		lookAt(target, seconds = 0): void {
+			if (!target) {
+				eyeGaze.releaseGaze();
+				return;
+			}
+			eyeGaze.holdGaze(target.x, target.y, target.screenWidth, target.screenHeight, seconds);
+		},
+
+		getExpressions(): Expression[] {
+			return supportedExpressions(currentVrm);
+		},
+
+		getGestureNames(): string[] {
+			if (!library || !animationsLoaded) return [];
+			const names = new Set<string>();
+			for (const phase of ["idle", "thinking", "speaking", "working", "error"] as const) {
+				for (const clip of library.getClips(phase)) {
+					// Clip names are "phase/file"; playGesture matches on the file part
+					names.add(clip.name.slice(clip.name.indexOf("/") + 1));
+				}
+			}
+			return [...names].sort();
+		},
+
 		setGazeTrackingMultiplier(multiplier: number): void {
 			phaseGazeMultiplier = multiplier;
 		},
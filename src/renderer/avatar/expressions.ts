@@ -6,9 +6,10 @@ import {
 	EXPRESSION_DURATION_NEUTRAL,
 	EXPRESSION_DURATION_SAD,
 	EXPRESSION_DURATION_RELAXED,
+	EXPRESSION_DURATION_ASKING,
 } from "../../shared/config.js";
 
-export type Expression = "neutral" | "happy" | "sad" | "angry" | "surprised" | "relaxed";
+export type Expression = "neutral" | "happy" | "sad" | "angry" | "surprised" | "relaxed" | "asking";
 
 // Blend shape names that compound expressions can write.
 // NOTE: "blink" is reserved for the procedural blink system. Never include here.
@@ -24,6 +25,8 @@ const COMPOUND_MAP: Record<Expression, Array<{ name: BlendShapeName; weight: num
 	angry:     [{ name: "angry", weight: 1.0 }, { name: "ee", weight: 0.4 }],
 	surprised: [{ name: "surprised", weight: 1.0 }, { name: "aa", weight: 0.5 }],
 	relaxed:   [{ name: "relaxed", weight: 1.0 }],
+	// Raised brows with a hopeful half-smile while waiting on an approval
+	asking:    [{ name: "surprised", weight: 0.45 }, { name: "happy", weight: 0.25 }],
 	neutral:   [],
 };
 
@@ -34,8 +37,22 @@ const BLEND_DURATION: Record<Expression, number> = {
 	neutral:   EXPRESSION_DURATION_NEUTRAL,
 	sad:       EXPRESSION_DURATION_SAD,
 	relaxed:   EXPRESSION_DURATION_RELAXED,
+	asking:    EXPRESSION_DURATION_ASKING,
 };
 
+// Lip sync owns the mouth shapes; an expression only needs its own blend shapes to show
+const MOUTH_SHAPES = new Set<BlendShapeName>(["aa", "ee"]);
+
+/** Expressions this model can actually show (neutral always can). */
+export function supportedExpressions(vrm: VRM): Expression[] {
+	const expr = vrm.expressionManager;
+	return (Object.keys(COMPOUND_MAP) as Expression[]).filter((expression) =>
+		COMPOUND_MAP[expression].every((entry) =>
+			MOUTH_SHAPES.has(entry.name) || expr?.getExpression(entry.name) != null,
+		),
+	);
+}
+
 interface BlendState {
 	current: number;
 	start: number;
@@ -66,7 +83,8 @@ export interface ExpressionController {
 export function createExpressionController(vrm: VRM): ExpressionController {
 	let currentVrm = vrm;
 	let currentExpression: Expression = "neutral";
-	let pendingOverlay: { expression: Expression; weight: number } | null = null;
+	// Additive overlays queued for the next update (hover reaction, reply tone)
+	let pendingOverlays: Array<{ expression: Expression; weight: number }> = [];
 
 	const blendStates: Record<BlendShapeName, BlendState> = {} as any;
 	for (const name of ALL_BLEND_SHAPES) {
@@ -133,15 +151,15 @@ export function createExpressionController(vrm: VRM): ExpressionController {
 				expr.setValue(name, state.current);
 			}
 
-			// Apply overlay additively
-			if (pendingOverlay) {
-				const current = expr.getValue(pendingOverlay.expression) ?? 0;
-				expr.setValue(
-					pendingOverlay.expression,
-					Math.min(1, current + pendingOverlay.weight),
-				);
-				pendingOverlay = null;
+			// Apply overlays additively (mouth shapes stay with the base expression and lip sync)
+			for (const overlay of pendingOverlays) {
+				for (const entry of COMPOUND_MAP[overlay.expression]) {
+					if (entry.name === "aa" || entry.name === "ee") continue;
+					const current = expr.getValue(entry.name) ?? 0;
+					expr.setValue(entry.name, Math.min(1, current + entry.weight * overlay.weight));
+				}
 			}
+			pendingOverlays = [];
 		},
 
 		setVrm(vrm: VRM): void {
@@ -155,11 +173,11 @@ export function createExpressionController(vrm: VRM): ExpressionController {
 				s.duration = 0;
 			}
 			currentExpression = "neutral";
-			pendingOverlay = null;
+			pendingOverlays = [];
 		},
 
 		applyOverlay(expression: Expression, weight: number): void {
-			pendingOverlay = { expression, weight };
+			pendingOverlays.push({ expression, weight });
 		},
 	};
 }
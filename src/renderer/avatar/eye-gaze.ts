@@ -23,6 +23,10 @@ export interface EyeGazeController {
 		windowWidth: number,
 		windowHeight: number,
 	): void;
+	/** Look at a point for `seconds`, ignoring the cursor meanwhile. */
+	holdGaze(x: number, y: number, windowWidth: number, windowHeight: number, seconds: number): void;
+	/** End a hold early and go back to following the cursor. */
+	releaseGaze(): void;
 	setTrackingMultiplier(multiplier: number): void;
 	applySaccadeOffset(yawDeg: number, pitchDeg: number): void;
 	isActivelyTracking(): boolean;
@@ -111,16 +115,56 @@ export function createEyeGazeController(
 	let trackingMultiplier = 1.0;
 	let lastX = 0;
 	let lastY = 0;
+	// Deliberate look (agent tool) in progress until this time, in seconds
+	let holdUntil = 0;
 
 	// Saccade offset (degrees, applied additively to eye lookAt)
 	let saccadeYaw = 0;
 	let saccadePitch = 0;
 
+	// Head and eye targets for a screen point, normalized against the screen size
+	function aimAt(x: number, y: number, windowWidth: number, windowHeight: number): void {
+		// Normalize to [-1, 1] using window dimensions
+		const normalizedX = (x / windowWidth) * 2 - 1;
+		const normalizedY = (y / windowHeight) * 2 - 1;
+
+		// Pitch direction depends on VRM version due to different bone orientations
+		const pitchSign = pitchInverted ? -1 : 1;
+
+		// Head targets (radians, for bone rotation)
+		targetHeadYaw =
+			normalizedX * headYawLimit * DEG_TO_RAD * trackingMultiplier;
+		targetHeadPitch =
+			pitchSign * normalizedY * headPitchLimit * DEG_TO_RAD * trackingMultiplier;
+
+		// Clamp head
+		targetHeadYaw = Math.max(
+			-headYawLimit * DEG_TO_RAD,
+			Math.min(headYawLimit * DEG_TO_RAD, targetHeadYaw),
+		);
+		targetHeadPitch = Math.max(
+			-headPitchLimit * DEG_TO_RAD,
+			Math.min(headPitchLimit * DEG_TO_RAD, targetHeadPitch),
+		);
+
+		// Eye targets (degrees, for VRM lookAt)
+		// VRM lookAt: positive pitch = looking up
+		targetEyeYaw = normalizedX * eyeYawLimit * trackingMultiplier;
+		targetEyePitch = -pitchSign * normalizedY * eyePitchLimit * trackingMultiplier;
+
+		// Clamp eyes
+		targetEyeYaw = Math.max(-eyeYawLimit, Math.min(eyeYawLimit, targetEyeYaw));
+		targetEyePitch = Math.max(
+			-eyePitchLimit,
+			Math.min(eyePitchLimit, targetEyePitch),
+		);
+	}
+
 	return {
 		update(delta: number): void {
 			// Idle timeout check
 			const now = performance.now() / 1000;
-			if (now - lastMoveTime > idleTimeout) {
+			if (now >= holdUntil && now - lastMoveTime > idleTimeout) {
 				targetEyeYaw = 0;
 				targetEyePitch = 0;
 				targetHeadYaw = 0;
@@ -163,6 +207,8 @@ export function createEyeGazeController(
 			windowWidth: number,
 			windowHeight: number,
 		): void {
+			if (performance.now() / 1000 < holdUntil) return;
+
 			// Deadzone check - ignore small movements
 			const dx = x - lastX;
 			const dy = y - lastY;
@@ -172,44 +218,25 @@ export function createEyeGazeController(
 			lastX = x;
 			lastY = y;
 
-			// Normalize to [-1, 1] using window dimensions
-			const normalizedX = (x / windowWidth) * 2 - 1;
-			const normalizedY = (y / windowHeight) * 2 - 1;
-
-			// Pitch direction depends on VRM version due to different bone orientations
-			const pitchSign = pitchInverted ? -1 : 1;
-
-			// Head targets (radians, for bone rotation)
-			targetHeadYaw =
-				normalizedX * headYawLimit * DEG_TO_RAD * trackingMultiplier;
-			targetHeadPitch =
-				pitchSign * normalizedY * headPitchLimit * DEG_TO_RAD * trackingMultiplier;
-
-			// Clamp head
-			targetHeadYaw = Math.max(
-				-headYawLimit * DEG_TO_RAD,
-				Math.min(headYawLimit * DEG_TO_RAD, targetHeadYaw),
-			);
-			targetHeadPitch = Math.max(
-				-headPitchLimit * DEG_TO_RAD,
-				Math.min(headPitchLimit * DEG_TO_RAD, targetHeadPitch),
-			);
-
-			// Eye targets (degrees, for VRM lookAt)
-			// VRM lookAt: positive pitch = looking up
-			targetEyeYaw = normalizedX * eyeYawLimit * trackingMultiplier;
-			targetEyePitch = -pitchSign * normalizedY * eyePitchLimit * trackingMultiplier;
-
-			// Clamp eyes
-			targetEyeYaw = Math.max(-eyeYawLimit, Math.min(eyeYawLimit, targetEyeYaw));
-			targetEyePitch = Math.max(
-				-eyePitchLimit,
-				Math.min(eyePitchLimit, targetEyePitch),
-			);
-
+			aimAt(x, y, windowWidth, windowHeight);
 			lastMoveTime = performance.now() / 1000;
 		},
 
+		holdGaze(x: number, y: number, windowWidth: number, windowHeight: number, seconds: number): void {
+			aimAt(x, y, windowWidth, windowHeight);
+			holdUntil = performance.now() / 1000 + seconds;
+			// The idle timeout starts counting once the hold ends
+			lastMoveTime = holdUntil;
+		},
+
+		releaseGaze(): void {
+			holdUntil = 0;
+			lastMoveTime = 0;
+			// Next cursor sample must get past the deadzone to take over again
+			lastX = Number.NaN;
+			lastY = Number.NaN;
+		},
+
 		setTrackingMultiplier(multiplier: number): void {
 			trackingMultiplier = multiplier;
 		},
@@ -250,6 +277,7 @@ export function createEyeGazeController(
 			lastMoveTime = 0;
 			lastX = 0;
 			lastY = 0;
+			holdUntil = 0;
 		},
 	};
 }
@@ -0,0 +1,156 @@
+/**
+ * Scene lighting rig driven by persisted lighting profiles.
+ * Owns the ambient + key + fill lights and rewrites their color/intensity
+ * when the profile (or custom values) change.
+ */
+
+import * as THREE from "three";
+import { LIGHTING_PROFILES, LIGHTING_PROFILE_DEFAULT } from "../../shared/config.js";
+
+export type LightingProfile = (typeof LIGHTING_PROFILES)[number];
+
+export interface LightingCustomValues {
+	intensity: number;
+	color: string;
+	ambient: number;
+}
+
+interface LightSpec {
+	color: number;
+	intensity: number;
+}
+
+interface ProfileSpec {
+	ambient: LightSpec;
+	key: LightSpec;
+	fill: LightSpec;
+}
+
+const PRESET_PROFILES: Record<Exclude<LightingProfile, "custom">, ProfileSpec> = {
+	studio: {
+		ambient: { color: 0xffffff, intensity: 0.6 },
+		key: { color: 0xffffff, intensity: Math.PI * 0.8 },
+		fill: { color: 0xffffff, intensity: Math.PI * 0.3 },
+	},
+	warm: {
+		ambient: { color: 0xffe6cc, intensity: 0.55 },
+		key: { color: 0xffd2a0, intensity: Math.PI * 0.85 },
+		fill: { color: 0xffb889, intensity: Math.PI * 0.25 },
+	},
+	cool: {
+		ambient: { color: 0xdde8ff, intensity: 0.55 },
+		key: { color: 0xd0e0ff, intensity: Math.PI * 0.75 },
+		fill: { color: 0xa8c4ff, intensity: Math.PI * 0.35 },
+	},
+	neutral: {
+		ambient: { color: 0xffffff, intensity: 0.8 },
+		key: { color: 0xffffff, intensity: Math.PI * 0.5 },
+		fill: { color: 0xffffff, intensity: Math.PI * 0.4 },
+	},
+};
+
+/** Fill light strength relative to the key light for custom lighting. */
+const CUSTOM_FILL_RATIO = 0.4;
+
+const HEX_COLOR_RE = /^#[0-9a-f]{6}$/i;
+
+export function isLightingProfile(value: string): value is LightingProfile {
+	return (LIGHTING_PROFILES as readonly string[]).includes(value);
+}
+
+function customToSpec(custom: LightingCustomValues): ProfileSpec {
+	const color = HEX_COLOR_RE.test(custom.color) ? parseInt(custom.color.slice(1), 16) : 0xffffff;
+	// Custom intensity is a key-light multiplier where 0.8 matches the studio key
+	const keyIntensity = Math.PI * custom.intensity;
+	return {
+		ambient: { color, intensity: custom.ambient },
+		key: { color, intensity: keyIntensity },
+		fill: { color, intensity: keyIntensity * CUSTOM_FILL_RATIO },
+	};
+}
+
+export interface LightingController {
+	/** Apply a named profile. "custom" uses the last custom values set. */
+	setProfile(profile: string): void;
+	/** Update custom values (re-applied immediately if the custom profile is active). */
+	setCustom(custom: LightingCustomValues): void;
+	getProfile(): LightingProfile;
+	getLights(): THREE.Light[];
+	/** Register a callback fired after the lights change (e.g. to recompute IBL). */
+	onChange(cb: () => void): void;
+	dispose(): void;
+}
+
+export function createLightingController(scene: THREE.Scene): LightingController {
+	const ambient = new THREE.AmbientLight(0xffffff, 0.6);
+	scene.add(ambient);
+
+	// Key light: front-top-right
+	const keyLight = new THREE.DirectionalLight(0xffffff, Math.PI * 0.8);
+	keyLight.position.set(1, 2, 1).normalize();
+	scene.add(keyLight);
+
+	// Fill light: left
+	const fillLight = new THREE.DirectionalLight(0xffffff, Math.PI * 0.3);
+	fillLight.position.set(-1, 1, 0.5).normalize();
+	scene.add(fillLight);
+
+	let currentProfile: LightingProfile = LIGHTING_PROFILE_DEFAULT;
+	let customValues: LightingCustomValues | null = null;
+	let changeCallbacks: Array<() => void> = [];
+
+	function applySpec(spec: ProfileSpec): void {
+		ambient.color.setHex(spec.ambient.color);
+		ambient.intensity = spec.ambient.intensity;
+		keyLight.color.setHex(spec.key.color);
+		keyLight.intensity = spec.key.intensity;
+		fillLight.color.setHex(spec.fill.color);
+		fillLight.intensity = spec.fill.intensity;
+		for (const cb of changeCallbacks) cb();
+	}
+
+	function applyCurrent(): void {
+		if (currentProfile === "custom") {
+			// Until custom values arrive, custom renders like the default profile
+			applySpec(customValues ? customToSpec(customValues) : PRESET_PROFILES.studio);
+		} else {
+			applySpec(PRESET_PROFILES[currentProfile]);
+		}
+	}
+
+	return {
+		setProfile(profile: string): void {
+			if (!isLightingProfile(profile)) {
+				console.warn(`[lighting] Unknown profile "${profile}", keeping ${currentProfile}`);
+				return;
+			}
+			currentProfile = profile;
+			applyCurrent();
+		},
+
+		setCustom(custom: LightingCustomValues): void {
+			customValues = { ...custom };
+			if (currentProfile === "custom") applyCurrent();
+		},
+
+		getProfile(): LightingProfile {
+			return currentProfile;
+		},
+
+		getLights(): THREE.Light[] {
+			return [ambient, keyLight, fillLight];
+		},
+
+		onChange(cb: () => void): void {
+			changeCallbacks.push(cb);
+		},
+
+		dispose(): void {
+			changeCallbacks = [];
+			scene.remove(ambient, keyLight, fillLight);
+			ambient.dispose();
+			keyLight.dispose();
+			fillLight.dispose();
+		},
+	};
+}
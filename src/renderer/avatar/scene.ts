@@ -1,5 +1,6 @@
 import * as THREE from "three";
 import { CAMERA_ZOOM_MIN, CAMERA_ZOOM_MAX, CAMERA_ZOOM_DEFAULT } from "../../shared/config.js";
+import { createLightingController, type LightingController } from "./lighting.js";
 
 export interface AvatarScene {
 	renderer: THREE.WebGLRenderer;
@@ -7,6 +8,7 @@ export interface AvatarScene {
 	camera: THREE.PerspectiveCamera;
 	setCameraZoom(zoom: number): number;
 	getLights(): THREE.Light[];
+	lighting: LightingController;
 }
 
 export function createScene(canvas: HTMLCanvasElement): AvatarScene {
@@ -29,19 +31,8 @@ export function createScene(canvas: HTMLCanvasElement): AvatarScene {
 
 	const scene = new THREE.Scene();
 
-	// Ambient light
-	const ambient = new THREE.AmbientLight(0xffffff, 0.6);
-	scene.add(ambient);
-
-	// Key light: front-top-right
-	const keyLight = new THREE.DirectionalLight(0xffffff, Math.PI * 0.8);
-	keyLight.position.set(1, 2, 1).normalize();
-	scene.add(keyLight);
-
-	// Fill light: left
-	const fillLight = new THREE.DirectionalLight(0xffffff, Math.PI * 0.3);
-	fillLight.position.set(-1, 1, 0.5).normalize();
-	scene.add(fillLight);
+	// Ambient + key + fill lights, driven by the persisted lighting profile
+	const lighting = createLightingController(scene);
 
 	// Handle resize
 	window.addEventListener("resize", () => {
@@ -65,6 +56,7 @@ export function createScene(canvas: HTMLCanvasElement): AvatarScene {
 
 	return {
 		renderer, scene, camera, setCameraZoom,
-		getLights: () => [ambient, keyLight, fillLight],
+		getLights: () => lighting.getLights(),
+		lighting,
 	};
 }
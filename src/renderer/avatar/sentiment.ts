@@ -0,0 +1,185 @@
+import type { SentimentLexicon } from "../../shared/types.js";
+import { SENTIMENT_MIN_SCORE } from "../../shared/config.js";
+import type { Expression } from "./expressions.js";
+
+export type SentimentResult = {
+	expression: Expression;
+	/** 0..1 confidence, before the user's strength setting. */
+	weight: number;
+};
+
+export interface SentimentClassifier {
+	/** Score one sentence; null when it carries no clear tone. */
+	classify(sentence: string): SentimentResult | null;
+}
+
+type MoodExpression = Exclude<Expression, "neutral">;
+type LexiconEntry = { expression: MoodExpression; weight: number };
+
+// Small built-in lexicon tuned for assistant replies (status reports, apologies, success)
+const BUILTIN_WORDS: Record<MoodExpression, string[]> = {
+	happy: [
+		"great", "good", "glad", "happy", "awesome", "excellent", "perfect", "success", "successful",
+		"successfully", "done", "works", "working", "fixed", "passed", "passing", "love", "nice", "wonderful",
+		"congrats", "congratulations", "thanks", "thank", "enjoy", "fantastic", "amazing", "yay", "resolved",
+		"solved", "complete", "completed", "ready", "welcome", "pleased", "delighted", "fun",
+	],
+	sad: [
+		"sorry", "unfortunately", "sadly", "failed", "fail", "failing", "failure", "error", "errors",
+		"broken", "unable", "cannot", "can't", "couldn't", "lost", "missing", "crash", "crashed",
+		"regret", "apologies", "apologize", "unavailable", "denied", "rejected", "problem", "issue",
+		"wrong", "bad", "miss", "disappointing", "afraid",
+	],
+	angry: [
+		"angry", "annoying", "annoyed", "furious", "unacceptable", "ridiculous", "hate", "terrible",
+		"awful", "frustrating", "frustrated", "outrageous", "stupid",
+	],
+	surprised: [
+		"wow", "whoa", "surprising", "surprisingly", "unexpected", "unexpectedly", "interesting",
+		"curious", "strange", "weird", "oh", "huh", "incredible", "really?", "suddenly",
+	],
+	relaxed: [
+		"calm", "relax", "relaxed", "easy", "simple", "fine", "okay", "ok", "sure", "no worries",
+		"gently", "smooth", "smoothly", "steady", "peaceful", "comfortable",
+	],
+	asking: [
+		"would you", "could you", "do you", "prefer", "confirm", "let me know",
+	],
+};
+
+const BUILTIN_EMOJI: Array<[RegExp, MoodExpression]> = [
+	[/[\u{1F600}-\u{1F60D}\u{1F642}\u{1F389}\u{2705}\u{1F44D}]/u, "happy"],
+	[/[\u{1F622}\u{1F625}\u{1F61E}\u{1F614}\u{274C}]/u, "sad"],
+	[/[\u{1F620}\u{1F621}\u{1F92C}]/u, "angry"],
+	[/[\u{1F62E}\u{1F632}\u{1F92F}]/u, "surprised"],
+];
+
+const NEGATORS = new Set(["not", "no", "never", "without", "hardly", "barely", "nothing", "none"]);
+const INTENSIFIERS = new Set(["very", "really", "so", "extremely", "super", "totally", "incredibly", "truly", "absolutely"]);
+const NEGATION_WINDOW = 3;
+
+// "not great" reads sad, "not bad" reads relaxed; other negated moods just cancel out
+const NEGATED: Partial<Record<MoodExpression, MoodExpression>> = {
+	happy: "sad",
+	sad: "relaxed",
+	angry: "relaxed",
+};
+
+function buildLexicon(extra: SentimentLexicon): { words: Map<string, LexiconEntry>; phrases: Array<LexiconEntry & { phrase: string }> } {
+	const words = new Map<string, LexiconEntry>();
+	const phrases: Array<LexiconEntry & { phrase: string }> = [];
+
+	function add(term: string, expression: Expression, weight: number): void {
+		if (expression === "neutral") {
+			// "neutral" lets a user file mute a built-in word or phrase
+			words.delete(term);
+			const index = phrases.findIndex((p) => p.phrase === term);
+			if (index >= 0) phrases.splice(index, 1);
+			return;
+		}
+		if (term.includes(" ")) phrases.push({ phrase: term, expression, weight });
+		else words.set(term, { expression, weight });
+	}
+
+	for (const [expression, terms] of Object.entries(BUILTIN_WORDS) as Array<[MoodExpression, string[]]>) {
+		for (const term of terms) add(term, expression, 1);
+	}
+	for (const [term, entry] of Object.entries(extra)) {
+		add(term.toLowerCase(), entry.expression, entry.weight);
+	}
+	return { words, phrases };
+}
+
+/**
+ * Offline lexicon-based tone classifier for assistant sentences.
+ * Handles simple negation ("not working") and intensifiers ("really great").
+ */
+export function createSentimentClassifier(extra: SentimentLexicon = {}): SentimentClassifier {
+	const { words, phrases } = buildLexicon(extra);
+
+	function classify(sentence: string): SentimentResult | null {
+		const lower = sentence.toLowerCase();
+		const scores = new Map<MoodExpression, number>();
+		const bump = (expression: MoodExpression, amount: number): void => {
+			scores.set(expression, (scores.get(expression) ?? 0) + amount);
+		};
+
+		for (const { phrase, expression, weight } of phrases) {
+			if (lower.includes(phrase)) bump(expression, weight);
+		}
+		for (const [re, expression] of BUILTIN_EMOJI) {
+			if (re.test(sentence)) bump(expression, 1);
+		}
+
+		const tokens = lower.match(/[a-z']+\??/g) ?? [];
+		let negatedUntil = -1;
+		let boost = 1;
+		tokens.forEach((token, index) => {
+			const word = token.replace(/\?$/, "");
+			if (NEGATORS.has(word) || word.endsWith("n't")) {
+				// The negator itself still scores below (e.g. "can't" is sad)
+				negatedUntil = index + NEGATION_WINDOW;
+			}
+			if (INTENSIFIERS.has(word)) {
+				boost = 1.5;
+				return;
+			}
+
+			const entry = words.get(token) ?? words.get(word);
+			if (entry) {
+				const negated = index <= negatedUntil && !word.endsWith("n't") && !NEGATORS.has(word);
+				const expression = negated ? NEGATED[entry.expression] : entry.expression;
+				if (expression) bump(expression, entry.weight * boost);
+			}
+			boost = 1;
+		});
+
+		// Exclamation marks amplify whatever tone is there
+		const exclaim = sentence.includes("!") ? 1.25 : 1;
+
+		let best: MoodExpression | null = null;
+		let bestScore = 0;
+		for (const [expression, score] of scores) {
+			if (score > bestScore) {
+				best = expression;
+				bestScore = score;
+			}
+		}
+		if (!best || bestScore < SENTIMENT_MIN_SCORE) return null;
+
+		return { expression: best, weight: Math.min(1, (bestScore * exclaim) / 3 + 0.25) };
+	}
+
+	return { classify };
+}
+
+// Only a terminator followed by whitespace ends a sentence, so "v3." mid-stream doesn't
+const SENTENCE_END_RE = /[.!?](?=\s)|\n/g;
+
+/**
+ * Split off sentences completed since `consumed` characters of a cumulative text.
+ * Returns the new sentences and the updated consumed offset. Pass `final` once the
+ * text is complete: its last sentence has nothing after it and is taken as well.
+ */
+export function takeCompletedSentences(
+	text: string,
+	consumed: number,
+	options: { final?: boolean } = {},
+): { sentences: string[]; consumed: number } {
+	const sentences: string[] = [];
+	let start = consumed;
+	SENTENCE_END_RE.lastIndex = consumed;
+	let match: RegExpExecArray | null;
+	while ((match = SENTENCE_END_RE.exec(text)) !== null) {
+		const end = match.index + 1;
+		const sentence = text.slice(start, end).trim();
+		if (sentence) sentences.push(sentence);
+		start = end;
+	}
+	if (options.final) {
+		const tail = text.slice(start).trim();
+		if (tail) sentences.push(tail);
+		start = text.length;
+	}
+	return { sentences, consumed: start };
+}
@@ -4,6 +4,10 @@ import type { AnimationLibrary } from "./animation-loader.js";
 
 export interface AnimationStateMachine {
 	setPhase(phase: AgentPhase): void;
+	/** Loop a named clip (e.g. for the running tool) instead of the phase pool; null resumes the pool. */
+	setPreferredClip(name: string | null): void;
+	/** Play a named clip once over the current phase, then resume. Returns false if the clip is unknown. */
+	playGesture(name: string): boolean;
 	update(delta: number): void;
 	dispose(): void;
 }
@@ -21,6 +25,8 @@ export function createStateMachine(
 	let currentPhase: AgentPhase | null = null;
 	let currentAction: THREE.AnimationAction | null = null;
 	let currentClipIndex = -1;
+	let preferredClip: THREE.AnimationClip | null = null;
+	let gestureAction: THREE.AnimationAction | null = null;
 
 	function getClipPool(phase: AgentPhase): THREE.AnimationClip[] {
 		return library.getClips(phase);
@@ -39,11 +45,11 @@ export function createStateMachine(
 		return { clip: pool[index], index };
 	}
 
-	function playClip(clip: THREE.AnimationClip, phase: AgentPhase, fadeIn: number): void {
+	function playClip(clip: THREE.AnimationClip, phase: AgentPhase, fadeIn: number, once = false): void {
 		const action = mixer.clipAction(clip);
 		action.reset();
 
-		if (LOOPING_PHASES.has(phase)) {
+		if (!once && (LOOPING_PHASES.has(phase) || clip === preferredClip)) {
 			action.setLoop(THREE.LoopRepeat, Infinity);
 		} else {
 			action.setLoop(THREE.LoopOnce, 1);
@@ -54,10 +60,31 @@ export function createStateMachine(
 		currentAction = action;
 	}
 
+	function playPhasePool(phase: AgentPhase, fade: number): void {
+		const pool = getClipPool(phase);
+		const pick = pickClip(pool, -1);
+		if (!pick) return;
+
+		currentClipIndex = pick.index;
+		if (currentAction) {
+			currentAction.fadeOut(fade);
+		}
+		playClip(pick.clip, phase, fade);
+	}
+
 	function onFinished(event: { action: THREE.AnimationAction }): void {
 		if (event.action !== currentAction) return;
 		if (!currentPhase) return;
 
+		if (event.action === gestureAction) {
+			gestureAction = null;
+			if (preferredClip) {
+				currentAction.fadeOut(VARIETY_ROTATION_FADE);
+				playClip(preferredClip, currentPhase, VARIETY_ROTATION_FADE);
+				return;
+			}
+		}
+
 		const pool = getClipPool(currentPhase);
 		const pick = pickClip(pool, currentClipIndex);
 		if (!pick) return;
@@ -77,6 +104,10 @@ export function createStateMachine(
 		setPhase(phase: AgentPhase): void {
 			if (phase === currentPhase) return;
 
+			// The preferred clip and any gesture belong to the phase they were requested in
+			preferredClip = null;
+			gestureAction = null;
+
 			const pool = getClipPool(phase);
 			if (pool.length === 0) {
 				// No clips for this phase: keep whatever is playing
@@ -84,17 +115,35 @@ export function createStateMachine(
 				return;
 			}
 
-			const pick = pickClip(pool, -1);
-			if (!pick) return;
-
 			currentPhase = phase;
-			currentClipIndex = pick.index;
+			playPhasePool(phase, PHASE_TRANSITION_FADE);
+		},
 
-			if (currentAction) {
-				currentAction.fadeOut(PHASE_TRANSITION_FADE);
+		setPreferredClip(name: string | null): void {
+			const clip = name ? library.findClip(name) : null;
+			if (clip === preferredClip) return;
+			preferredClip = clip;
+			gestureAction = null;
+			if (!currentPhase) return;
+
+			if (clip) {
+				if (currentAction) currentAction.fadeOut(PHASE_TRANSITION_FADE);
+				currentClipIndex = -1;
+				playClip(clip, currentPhase, PHASE_TRANSITION_FADE);
+			} else {
+				playPhasePool(currentPhase, PHASE_TRANSITION_FADE);
 			}
+		},
 
-			playClip(pick.clip, phase, PHASE_TRANSITION_FADE);
+		playGesture(name: string): boolean {
+			const clip = library.findClip(name);
+			if (!clip || !currentPhase) return false;
+
+			if (currentAction) currentAction.fadeOut(VARIETY_ROTATION_FADE);
+			currentClipIndex = -1;
+			playClip(clip, currentPhase, VARIETY_ROTATION_FADE, true);
+			gestureAction = currentAction;
+			return true;
 		},
 
 		update(delta: number): void {
@@ -112,6 +161,8 @@ export function createStateMachine(
 			currentAction = null;
 			currentPhase = null;
 			currentClipIndex = -1;
+			preferredClip = null;
+			gestureAction = null;
 		},
 	};
 }
@@ -3,17 +3,47 @@ import type { VRM } from "@pixiv/three-vrm";
 import { createScene } from "./avatar/scene.js";
 import { loadVrmModel, unloadVrmModel } from "./avatar/vrm-loader.js";
 import { createAnimator, type Animator } from "./avatar/animator.js";
-import { createTTSController, type TTSController } from "./audio/index.js";
+import { createTTSController, getKokoroStallMs, type TTSController } from "./audio/index.js";
 import {
 	createSpringBoneController,
 	type SpringBoneController,
 } from "./avatar/spring-bones.js";
 import { createIBLEnhancer, type IBLEnhancer } from "./avatar/ibl-enhancer.js";
-import { CAMERA_ZOOM_STEP, IBL_ENABLED, PIXEL_SAMPLE_THROTTLE_MS } from "../shared/config.js";
+import {
+	createSentimentClassifier,
+	takeCompletedSentences,
+	type SentimentResult,
+} from "./avatar/sentiment.js";
+import {
+	CAMERA_ZOOM_STEP,
+	IBL_ENABLED,
+	PIXEL_SAMPLE_THROTTLE_MS,
+	INTERRUPTED_STARTLE_MS,
+	INTERRUPTED_REACTION_MS,
+	ERROR_REACTION_MS,
+	SENTIMENT_ENABLED_DEFAULT,
+	SENTIMENT_STRENGTH_DEFAULT,
+	SENTIMENT_LINGER_MS,
+	RENDER_STATS_INTERVAL_MS,
+	RENDERER_HEARTBEAT_MS,
+	KOKORO_STALL_MS,
+} from "../shared/config.js";
 import { isTransparentAtPoint } from "./avatar/pixel-transparency.js";
+import type { AgentAppearance, AgentPhase, ApprovalRequest, GatewayStatus } from "../shared/types.js";
+import type { Expression } from "./avatar/expressions.js";
+import { describeGatewayStatus, canRetryGateway } from "../shared/gateway-status.js";
 
 const bridge = window.avatarBridge;
 
+// Base expression for each agent phase
+const PHASE_EXPRESSIONS: Record<AgentPhase, Expression> = {
+	idle: "neutral",
+	thinking: "surprised",
+	speaking: "happy",
+	working: "relaxed",
+	error: "sad",
+};
+
 let currentVrm: VRM | null = null;
 let animator: Animator | null = null;
 let ttsController: TTSController | null = null;
@@ -22,7 +52,20 @@ let iblEnhancer: IBLEnhancer | null = null;
 
 async function boot(): Promise<void> {
 	const canvas = document.getElementById("avatar-canvas") as HTMLCanvasElement;
-	const { renderer, scene, camera, setCameraZoom, getLights } = createScene(canvas);
+	const { renderer, scene, camera, setCameraZoom, getLights, lighting } = createScene(canvas);
+
+	// Heartbeat for the main process watchdog. A lost GPU context or a stuck
+	// Kokoro worker is reported as a fault: either way the window needs a reload.
+	let webglLost = false;
+	canvas.addEventListener("webglcontextlost", () => { webglLost = true; });
+	canvas.addEventListener("webglcontextrestored", () => { webglLost = false; });
+	setInterval(() => {
+		const kokoroStallMs = getKokoroStallMs();
+		let problem: string | null = null;
+		if (webglLost) problem = "lost its WebGL context";
+		else if (kokoroStallMs > KOKORO_STALL_MS) problem = `has a Kokoro worker stuck for ${Math.round(kokoroStallMs / 1000)}s`;
+		bridge.heartbeat(problem);
+	}, RENDERER_HEARTBEAT_MS);
 
 	// Initialize IBL enhancer
 	if (IBL_ENABLED) {
@@ -30,25 +73,144 @@ async function boot(): Promise<void> {
 		iblEnhancer.computeSHFromLights(getLights());
 	}
 
+	// Keep IBL spherical harmonics in sync with the lighting profile
+	lighting.onChange(() => {
+		iblEnhancer?.computeSHFromLights(getLights());
+	});
+
+	// Restore persisted lighting (custom values first so "custom" applies them)
+	const [lightingProfile, lightingCustom] = await Promise.all([
+		bridge.getLightingProfile(),
+		bridge.getLightingCustom(),
+	]);
+	if (lightingCustom) lighting.setCustom(lightingCustom);
+	lighting.setProfile(lightingProfile);
+
+	bridge.onLightingProfileChanged((profile: string) => {
+		lighting.setProfile(profile);
+	});
+
+	bridge.onLightingCustomChanged((custom: LightingCustom) => {
+		lighting.setCustom(custom);
+	});
+
 	// Track previous phase for TTS session management
-	let previousPhase: string = "idle";
+	let previousPhase: AgentPhase = "idle";
+	let approvalPending = false;
+	// Reasoning length seen so far in this run, to measure how much each update adds
+	let reasoningChars = 0;
+
+	// Reply tone: completed sentences of the speaking stream are scored and blended in
+	let sentimentEnabled = SENTIMENT_ENABLED_DEFAULT;
+	let sentimentStrength = SENTIMENT_STRENGTH_DEFAULT;
+	let sentiment = createSentimentClassifier();
+	let sentimentConsumed = 0;
+	// Last text scored, so its final sentence can be scored when the reply ends
+	let replyText = "";
+	let replyMood: SentimentResult | null = null;
+
+	function applyReplyMood(): void {
+		if (!replyMood) {
+			animator?.setMood(null);
+			return;
+		}
+		animator?.setMood(replyMood.expression, replyMood.weight * sentimentStrength);
+	}
+
+	function resetReplyMood(): void {
+		sentimentConsumed = 0;
+		replyText = "";
+		replyMood = null;
+		applyReplyMood();
+	}
+
+	function scoreReplyText(text: string, final = false): void {
+		// Shorter cumulative text means a new message started
+		if (text.length < sentimentConsumed) sentimentConsumed = 0;
+		replyText = text;
+		const { sentences, consumed } = takeCompletedSentences(text, sentimentConsumed, { final });
+		sentimentConsumed = consumed;
+		for (const sentence of sentences) {
+			const result = sentiment.classify(sentence);
+			// Sentences without a clear tone keep the current mood
+			if (result) replyMood = result;
+		}
+		applyReplyMood();
+	}
+
+	function speakingExpression(): Expression {
+		// Don't smile through bad news: a non-happy mood blends over a neutral face
+		if (replyMood && replyMood.expression !== "happy") return "neutral";
+		return PHASE_EXPRESSIONS.speaking;
+	}
+
+	bridge.getSentimentConfig().then((config) => {
+		sentimentEnabled = config.enabled;
+		sentimentStrength = config.strength;
+		sentiment = createSentimentClassifier(config.lexicon);
+	}).catch(console.error);
+
+	bridge.onSentimentEnabledChanged((enabled: boolean) => {
+		sentimentEnabled = enabled;
+		if (!enabled) resetReplyMood();
+	});
+
+	bridge.onSentimentStrengthChanged((strength: number) => {
+		sentimentStrength = strength;
+		applyReplyMood();
+	});
+
+	// Interrupted reaction: startled, then a brief apologetic look, then neutral
+	let reactionTimers: ReturnType<typeof setTimeout>[] = [];
+
+	function clearReaction(): void {
+		for (const timer of reactionTimers) clearTimeout(timer);
+		reactionTimers = [];
+	}
+
+	function playInterruptedReaction(): void {
+		clearReaction();
+		animator?.setExpression("surprised");
+		reactionTimers.push(
+			setTimeout(() => animator?.setExpression("sad"), INTERRUPTED_STARTLE_MS),
+			setTimeout(() => animator?.setExpression("neutral"), INTERRUPTED_REACTION_MS),
+		);
+	}
 
 	// Register agent state listener early (before async VRM load)
 	bridge.onAgentState((state) => {
 		if (!animator) return;
 
+		clearReaction();
 		const isNewSpeakingSession = state.phase === "speaking" && previousPhase !== "speaking";
 
 		switch (state.phase) {
 			case "thinking":
-				animator.setExpression("surprised");
+				if (state.reasoning !== undefined) {
+					// The faster reasoning streams in, the livelier the pondering
+					animator.notifyReasoning(Math.max(0, state.reasoning.length - reasoningChars));
+					reasoningChars = state.reasoning.length;
+					// More of the same thought: already set up for thinking
+					if (previousPhase === "thinking") break;
+				} else {
+					reasoningChars = 0;
+				}
+				resetReplyMood();
+				animator.setExpression(PHASE_EXPRESSIONS.thinking);
 				animator.setPhase("thinking");
 				animator.stopLipSync();
 				ttsController?.cancel();
 				break;
 			case "speaking":
-				animator.setExpression("happy");
+				if (state.expression) {
+					// Explicit emotion tags outrank the tone classifier
+					if (replyMood) resetReplyMood();
+				} else if (sentimentEnabled && state.text) {
+					scoreReplyText(state.text);
+				}
+				animator.setExpression(state.expression ?? speakingExpression());
 				animator.setPhase("speaking");
+				for (const gesture of state.gestures ?? []) animator.playGesture(gesture);
 				if (state.text) {
 					// If TTS is enabled, use audio-driven lip sync
 					if (ttsController?.isEnabled()) {
@@ -63,15 +225,46 @@ async function boot(): Promise<void> {
 					}
 				}
 				break;
-			case "working":
-				animator.setExpression("relaxed");
+			case "working": {
+				// Tool mapping may ask for its own expression and clip while the tool runs
+				const activity = state.tool?.status === "running" ? state.tool.activity : undefined;
+				resetReplyMood();
+				animator.setExpression(activity?.expression ?? PHASE_EXPRESSIONS.working);
 				animator.setPhase("working");
+				animator.setActivityClip(activity?.clip ?? null);
 				animator.stopLipSync();
 				ttsController?.cancel();
 				break;
+			}
+			case "error":
+				// A failed run shouldn't look like a finished one: apologetic, then settle back to idle
+				resetReplyMood();
+				animator.setExpression(PHASE_EXPRESSIONS.error);
+				animator.setPhase("error");
+				animator.stopLipSync();
+				ttsController?.cancel();
+				reactionTimers.push(setTimeout(() => {
+					animator?.setPhase("idle");
+					animator?.setExpression(approvalPending ? "asking" : PHASE_EXPRESSIONS.idle);
+				}, ERROR_REACTION_MS));
+				break;
 			case "idle":
-				animator.setExpression("neutral");
+				if (replyText && !state.interrupted) {
+					// The reply is complete: score its last sentence and let the tone fade out
+					scoreReplyText(replyText, true);
+					reactionTimers.push(setTimeout(resetReplyMood, SENTIMENT_LINGER_MS));
+				} else {
+					resetReplyMood();
+				}
 				animator.setPhase("idle");
+				if (state.interrupted) {
+					// The user stopped the run: silence immediately instead of finishing the queue
+					ttsController?.cancel();
+					animator.stopLipSync();
+					playInterruptedReaction();
+					break;
+				}
+				animator.setExpression(PHASE_EXPRESSIONS.idle);
 				// Don't stop lip sync if TTS is enabled - let it finish naturally with the audio
 				// Only stop if TTS is disabled (using text-based lip sync)
 				if (!ttsController?.isEnabled()) {
@@ -82,18 +275,77 @@ async function boot(): Promise<void> {
 				break;
 		}
 
+		// A pending approval outranks the phase expression
+		if (approvalPending && !state.interrupted) animator.setExpression("asking");
+
 		previousPhase = state.phase;
 	});
 
+	function applyApprovals(approvals: ApprovalRequest[]): void {
+		const pending = approvals.length > 0;
+		if (pending === approvalPending) return;
+		approvalPending = pending;
+		if (!animator) return;
+		if (pending) {
+			clearReaction();
+			animator.setExpression("asking");
+		} else {
+			animator.setExpression(PHASE_EXPRESSIONS[previousPhase]);
+		}
+	}
+
+	bridge.onApprovalsChanged(applyApprovals);
+	bridge.getApprovals().then(applyApprovals).catch(console.error);
+
+	// Plugin commands: hold an expression, then hand the face back to the current phase
+	bridge.onSetExpression((expression, holdMs) => {
+		if (!animator) return;
+		clearReaction();
+		animator.setExpression(expression);
+		reactionTimers.push(setTimeout(() => {
+			animator?.setExpression(approvalPending ? "asking" : PHASE_EXPRESSIONS[previousPhase]);
+		}, holdMs));
+	});
+
+	bridge.onPlayGesture((name) => {
+		animator?.playGesture(name);
+	});
+
+	bridge.onLookAt((target, holdMs) => {
+		animator?.lookAt(target, holdMs / 1000);
+	});
+
+	// Agent tools only offer what the loaded model and clips can actually do
+	function reportCapabilities(): void {
+		if (!animator) return;
+		bridge.reportCapabilities({
+			expressions: animator.getExpressions(),
+			gestures: animator.getGestureNames(),
+		});
+	}
+
+	bridge.onSayText((text) => {
+		if (!animator) return;
+		if (ttsController?.isEnabled()) {
+			// Cut off whatever is playing so the new line starts right away
+			ttsController.cancel();
+			ttsController.resetForNewSession();
+			ttsController.queueText(text);
+		} else {
+			animator.feedLipSyncText(text);
+		}
+	});
+
 	// Initialize spring bone controller
 	springBones = createSpringBoneController();
 
 	// Track current scale for re-applying on model swap
 	let currentScale = 1.0;
+	let currentVrmPath = "";
 
-	// Model swap from tray or gateway agent switch
-	bridge.onVrmModelChanged(async (newPath: string) => {
+	async function swapModel(newPath: string): Promise<void> {
 		if (currentVrm) unloadVrmModel(currentVrm, scene);
+		currentVrmPath = newPath;
 		try {
 			currentVrm = await loadVrmModel(newPath, scene, (gltf) => {
 				springBones?.setFromGltf(gltf);
@@ -101,6 +353,7 @@ async function boot(): Promise<void> {
 		} catch (err) {
 			console.error("Failed to load VRM model, reverting to default:", err);
 			const defaultPath = await bridge.getVrmPath();
+			currentVrmPath = defaultPath;
 			currentVrm = await loadVrmModel(defaultPath, scene, (gltf) => {
 				springBones?.setFromGltf(gltf);
 			});
@@ -108,10 +361,17 @@ async function boot(): Promise<void> {
 		if (animator) animator.setVrm(currentVrm);
 		iblEnhancer?.enhanceVrm(currentVrm);
 		if (currentVrm) currentVrm.scene.scale.setScalar(currentScale);
+		reportCapabilities();
+	}
+
+	// Model swap from tray or settings
+	bridge.onVrmModelChanged((newPath: string) => {
+		void swapModel(newPath);
 	});
 
 	// Load default VRM
 	const vrmPath = await bridge.getVrmPath();
+	currentVrmPath = vrmPath;
 	currentVrm = await loadVrmModel(vrmPath, scene, (gltf) => {
 		springBones?.setFromGltf(gltf);
 	});
@@ -137,6 +397,7 @@ async function boot(): Promise<void> {
 			console.error("Failed to load animations, keeping procedural fallback:", err);
 		}
 	}
+	reportCapabilities();
 
 	// Restore persisted camera zoom before first frame
 	let currentZoom = await bridge.getCameraZoom();
@@ -297,6 +558,68 @@ async function boot(): Promise<void> {
 		}
 	});
 
+	// Per-agent appearance: apply only the fields that differ from what is live
+	let currentAnimationsDir: string | null = null;
+
+	async function applyAppearance(appearance: AgentAppearance): Promise<void> {
+		if (appearance.vrmPath !== currentVrmPath) {
+			await swapModel(appearance.vrmPath);
+		}
+		if (ttsController) {
+			if (appearance.ttsEngine !== ttsController.getEngine()) {
+				ttsController.setEngine(appearance.ttsEngine);
+			}
+			if (appearance.ttsVoice !== (ttsController.getVoice() ?? "")) {
+				ttsController.setVoice(appearance.ttsVoice);
+			}
+		}
+		if (appearance.scale !== currentScale) applyScale(appearance.scale);
+		if (appearance.lightingProfile !== lighting.getProfile()) {
+			lighting.setProfile(appearance.lightingProfile);
+		}
+		if (appearance.cameraZoom !== currentZoom) {
+			currentZoom = setCameraZoom(appearance.cameraZoom);
+		}
+		if (appearance.animationsDir !== currentAnimationsDir && animator) {
+			currentAnimationsDir = appearance.animationsDir;
+			try {
+				await animator.initAnimations(appearance.animations);
+			} catch (err) {
+				console.error("Failed to load agent animations:", err);
+			}
+			reportCapabilities();
+		}
+	}
+
+	bridge.onAgentAppearance((appearance) => {
+		applyAppearance(appearance).catch(console.error);
+	});
+
+	// Catch up on a session switch that happened while we were booting
+	bridge.getAgentAppearance().then((appearance) => {
+		if (appearance) return applyAppearance(appearance);
+	}).catch(console.error);
+
+	// Gateway connection indicator (click to skip the reconnect backoff)
+	const statusBtn = document.getElementById("connection-status-btn");
+	if (statusBtn) {
+		let gatewayStatus: GatewayStatus | null = null;
+		const showGatewayStatus = (status: GatewayStatus): void => {
+			gatewayStatus = status;
+			statusBtn.dataset.state = status.state;
+			statusBtn.title = describeGatewayStatus(status);
+		};
+		// Tooltip countdown is computed on hover so it never goes stale
+		statusBtn.addEventListener("mouseenter", () => {
+			if (gatewayStatus) statusBtn.title = describeGatewayStatus(gatewayStatus);
+		});
+		statusBtn.addEventListener("click", () => {
+			if (gatewayStatus && canRetryGateway(gatewayStatus)) bridge.retryGateway();
+		});
+		bridge.onGatewayStatus(showGatewayStatus);
+		bridge.getGatewayStatus().then(showGatewayStatus).catch(console.error);
+	}
+
 	// Update speaking animation on TTS state change
 	if (ttsController) {
 		ttsController.onSpeakingChange((speaking: boolean) => {
@@ -306,12 +629,24 @@ async function boot(): Promise<void> {
 
 	// Animation loop
 	const clock = new THREE.Clock();
+	let statsFrames = 0;
+	let statsStartedAt = performance.now();
 
 	function animate(): void {
 		requestAnimationFrame(animate);
 		const delta = clock.getDelta();
 		const elapsed = clock.elapsedTime;
 
+		// Frame rate and loaded model for the plugin's status command
+		statsFrames++;
+		const now = performance.now();
+		if (now - statsStartedAt >= RENDER_STATS_INTERVAL_MS) {
+			const fps = Math.round((statsFrames * 1000) / (now - statsStartedAt));
+			bridge.reportRenderStats({ fps, vrmPath: currentVrmPath });
+			statsFrames = 0;
+			statsStartedAt = now;
+		}
+
 		if (currentVrm && animator) {
 			animator.update(delta, elapsed);
 			ttsController?.update(delta); // Pump wLipSync weights to lip sync
@@ -0,0 +1,190 @@
+import type { GatewayProfile, GatewayProfilesSnapshot, GatewayTokenSource } from "../../shared/types.js";
+import {
+	createButton,
+	createRow,
+	createSection,
+	createSelect,
+	createStackedRow,
+	createToggle,
+} from "./settings-controls.js";
+
+const TOKEN_SOURCES: { value: GatewayTokenSource; label: string }[] = [
+	{ value: "openclaw", label: "OpenClaw config" },
+	{ value: "env", label: "Environment variable" },
+	{ value: "file", label: "File" },
+	{ value: "none", label: "None (device token)" },
+];
+
+function createTextInput(placeholder: string): HTMLInputElement {
+	const input = document.createElement("input");
+	input.type = "text";
+	input.className = "settings__text-input";
+	input.placeholder = placeholder;
+	input.spellcheck = false;
+	return input;
+}
+
+/** Gateway tab: pick the active gateway, and add, edit or delete saved profiles. */
+export function createGatewayProfilesPanel(panel: HTMLElement, bridge: SettingsBridge): void {
+	// Profile in the editor: "" while adding a new one, null when the editor is closed
+	let editingId: string | null = null;
+	let allowInsecureTls = false;
+
+	// ── Active gateway ──
+	const activeSection = createSection("Active Gateway");
+	const activeSelect = document.createElement("select");
+	activeSelect.className = "settings__select";
+	// The built-in gateway is the empty value
+	activeSelect.addEventListener("change", () => bridge.switchGatewayProfile(activeSelect.value || null));
+	activeSection.appendChild(createStackedRow("Connect To", activeSelect));
+	panel.appendChild(activeSection);
+
+	// ── Saved profiles ──
+	const listSection = createSection("Profiles");
+	const listEl = document.createElement("div");
+	listEl.className = "settings__profile-list";
+	listSection.appendChild(listEl);
+	listSection.appendChild(createButton("Add Profile", {
+		variant: "secondary",
+		onClick: () => openEditor(null),
+	}));
+	panel.appendChild(listSection);
+
+	const emptyEl = document.createElement("div");
+	emptyEl.className = "settings__profile-empty";
+	emptyEl.textContent = "No saved profiles";
+
+	// ── Editor ──
+	const editorSection = createSection("Edit Profile");
+	editorSection.style.display = "none";
+
+	const nameInput = createTextInput("Team gateway");
+	const urlInput = createTextInput("wss://gateway.example.com");
+	const tokenSelect = createSelect({
+		options: TOKEN_SOURCES,
+		selected: "none",
+		onChange: () => updateTokenRef(),
+	});
+	const tokenRefInput = createTextInput("");
+	const tokenRefRow = createStackedRow("Variable", tokenRefInput);
+	const tokenRefLabel = tokenRefRow.querySelector(".settings__label")!;
+	const caInput = createTextInput("PEM file (optional)");
+	const insecureToggle = createToggle({
+		initial: false,
+		onChange: (v) => { allowInsecureTls = v; },
+	});
+
+	const errorEl = document.createElement("div");
+	errorEl.className = "settings__form-error";
+	errorEl.setAttribute("role", "alert");
+
+	const formActions = document.createElement("div");
+	formActions.className = "settings__form-actions";
+	formActions.appendChild(createButton("Save", { variant: "primary", onClick: () => void save() }));
+	formActions.appendChild(createButton("Cancel", { variant: "ghost", onClick: () => closeEditor() }));
+
+	editorSection.appendChild(createStackedRow("Name", nameInput));
+	editorSection.appendChild(createStackedRow("URL", urlInput));
+	editorSection.appendChild(createRow("Token", tokenSelect.el));
+	editorSection.appendChild(tokenRefRow);
+	editorSection.appendChild(createStackedRow("CA Certificates", caInput));
+	editorSection.appendChild(createRow("Skip Certificate Check", insecureToggle.el));
+	editorSection.appendChild(errorEl);
+	editorSection.appendChild(formActions);
+	panel.appendChild(editorSection);
+
+	function updateTokenRef(): void {
+		const source = tokenSelect.el.value as GatewayTokenSource;
+		tokenRefRow.style.display = source === "env" || source === "file" ? "" : "none";
+		tokenRefLabel.textContent = source === "env" ? "Variable" : "File Path";
+		tokenRefInput.placeholder = source === "env" ? "TEAM_GATEWAY_TOKEN" : "~/.openclaw/team-gateway.token";
+	}
+
+	function openEditor(profile: GatewayProfile | null): void {
+		editingId = profile?.id ?? "";
+		nameInput.value = profile?.name ?? "";
+		urlInput.value = profile?.url ?? "";
+		tokenSelect.setValue(profile?.tokenSource ?? "none");
+		tokenRefInput.value = profile?.tokenRef ?? "";
+		caInput.value = profile?.caFile ?? "";
+		allowInsecureTls = profile?.allowInsecureTls ?? false;
+		insecureToggle.setValue(allowInsecureTls);
+		errorEl.textContent = "";
+		updateTokenRef();
+		editorSection.style.display = "block";
+		nameInput.focus();
+	}
+
+	function closeEditor(): void {
+		editingId = null;
+		editorSection.style.display = "none";
+	}
+
+	async function save(): Promise<void> {
+		if (editingId === null) return;
+		const result = await bridge.saveGatewayProfile({
+			id: editingId,
+			name: nameInput.value,
+			url: urlInput.value,
+			tokenSource: tokenSelect.el.value as GatewayTokenSource,
+			tokenRef: tokenRefInput.value,
+			caFile: caInput.value,
+			allowInsecureTls,
+		});
+		if (result.ok) {
+			closeEditor();
+		} else {
+			errorEl.textContent = result.error;
+		}
+	}
+
+	function renderProfile(profile: GatewayProfile, active: boolean): HTMLElement {
+		const item = document.createElement("div");
+		item.className = "settings__profile";
+		item.classList.toggle("is-active", active);
+
+		const info = document.createElement("div");
+		info.className = "settings__profile-info";
+		const nameEl = document.createElement("span");
+		nameEl.className = "settings__profile-name";
+		nameEl.textContent = profile.name;
+		const urlEl = document.createElement("span");
+		urlEl.className = "settings__profile-url";
+		urlEl.textContent = profile.url;
+		urlEl.title = profile.url;
+		info.appendChild(nameEl);
+		info.appendChild(urlEl);
+
+		const actions = document.createElement("div");
+		actions.className = "settings__profile-actions";
+		actions.appendChild(createButton("Edit", { variant: "ghost", onClick: () => openEditor(profile) }));
+		actions.appendChild(createButton("Delete", {
+			variant: "ghost",
+			onClick: () => bridge.deleteGatewayProfile(profile.id),
+		}));
+
+		item.appendChild(info);
+		item.appendChild(actions);
+		return item;
+	}
+
+	function render(snapshot: GatewayProfilesSnapshot): void {
+		activeSelect.replaceChildren(
+			new Option(`Default (${snapshot.builtinUrl})`, ""),
+			...snapshot.profiles.map((profile) => new Option(profile.name, profile.id)),
+		);
+		activeSelect.value = snapshot.activeProfileId ?? "";
+
+		listEl.replaceChildren(
+			...(snapshot.profiles.length === 0
+				? [emptyEl]
+				: snapshot.profiles.map((profile) => renderProfile(profile, profile.id === snapshot.activeProfileId))),
+		);
+
+		// The profile being edited was deleted
+		if (editingId && !snapshot.profiles.some((profile) => profile.id === editingId)) closeEditor();
+	}
+
+	bridge.getGatewayProfiles().then(render);
+	bridge.onGatewayProfilesChanged(render);
+}
@@ -8,8 +8,9 @@ import {
 	createSection,
 	createButton,
 } from "./settings-controls.js";
+import { createGatewayProfilesPanel } from "./gateway-profiles-panel.js";
 
-const TABS = ["Avatar", "Camera", "Voice", "Lighting", "Advanced"] as const;
+const TABS = ["Avatar", "Camera", "Voice", "Lighting", "Gateway", "Advanced"] as const;
 
 export function createSettingsPanel(container: HTMLElement, bridge: SettingsBridge): void {
 	// Title bar
@@ -99,6 +100,20 @@ export function createSettingsPanel(container: HTMLElement, bridge: SettingsBrid
 	scaleSection.appendChild(createRow("Avatar Scale", scaleSlider.el));
 	avatarPanel.appendChild(scaleSection);
 
+	const moodSection = createSection("Expressions");
+	const sentimentToggle = createToggle({
+		initial: true,
+		onChange: (v) => bridge.setSentimentEnabled(v),
+	});
+	moodSection.appendChild(createRow("Match Reply Tone", sentimentToggle.el));
+	const sentimentSlider = createSlider({
+		min: 0, max: 1, step: 0.1, value: 0.6,
+		debounceMs: 50,
+		onChange: (v) => bridge.setSentimentStrength(v),
+	});
+	moodSection.appendChild(createRow("Strength", sentimentSlider.el));
+	avatarPanel.appendChild(moodSection);
+
 	// ── Camera Tab ──
 	const cameraPanel = panels.get("Camera")!;
 	const framingSection = createSection("Framing");
@@ -214,6 +229,9 @@ export function createSettingsPanel(container: HTMLElement, bridge: SettingsBrid
 		});
 	}
 
+	// ── Gateway Tab ──
+	createGatewayProfilesPanel(panels.get("Gateway")!, bridge);
+
 	// ── Advanced Tab ──
 	const advancedPanel = panels.get("Advanced")!;
 
@@ -280,6 +298,8 @@ export function createSettingsPanel(container: HTMLElement, bridge: SettingsBrid
 			modelPathEl.title = settings.vrmModelPath;
 		}
 		scaleSlider.setValue(settings.scale);
+		sentimentToggle.setValue(settings.sentimentEnabled);
+		sentimentSlider.setValue(settings.sentimentStrength);
 
 		// Camera tab
 		zoomSlider.setValue(settings.zoom);
@@ -312,6 +332,8 @@ export function createSettingsPanel(container: HTMLElement, bridge: SettingsBrid
 	// ── Live sync: Update controls from external changes ──
 	bridge.onOpacityChanged((v) => opacitySlider.setValue(v));
 	bridge.onScaleChanged((v) => scaleSlider.setValue(v));
+	bridge.onSentimentEnabledChanged((v) => sentimentToggle.setValue(v));
+	bridge.onSentimentStrengthChanged((v) => sentimentSlider.setValue(v));
 	bridge.onCameraZoomChanged((v) => {
 		zoomSlider.setValue(v);
 		const presets = [0.6, 1.5, 4.0];
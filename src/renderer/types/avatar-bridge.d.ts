@@ -4,6 +4,8 @@ interface ChatMessage {
 	role: "user" | "assistant";
 	text: string;
 	agentId?: string;
+	/** Sending client, for user messages that came from elsewhere. */
+	source?: string;
 }
 
 interface ChatHistory {
@@ -31,7 +33,10 @@ interface AvatarBridge {
 	saveCameraZoom(zoom: number): void;
 	onCameraZoomChanged(callback: (zoom: number) => void): void;
 	onAgentState(callback: (state: import("../../shared/types.js").AgentState) => void): void;
-	sendChat(text: string): void;
+	getAgentAppearance(): Promise<import("../../shared/types.js").AgentAppearance | null>;
+	onAgentAppearance(callback: (appearance: import("../../shared/types.js").AgentAppearance) => void): void;
+	sendChat(text: string): Promise<import("../../shared/types.js").GatewayActionResult>;
+	abortRun(runId?: string): Promise<import("../../shared/types.js").GatewayActionResult>;
 	toggleChat(): void;
 	onChatVisibility(callback: (visible: boolean) => void): void;
 	getAnimationsConfig(): Promise<{
@@ -69,10 +74,44 @@ interface AvatarBridge {
 	setTtsVoice(voice: string): void;
 	onTtsVoiceChanged(callback: (voice: string) => void): void;
 
+	// Sentiment-driven expressions
+	getSentimentConfig(): Promise<import("../../shared/types.js").SentimentConfig>;
+	onSentimentEnabledChanged(callback: (enabled: boolean) => void): void;
+	onSentimentStrengthChanged(callback: (strength: number) => void): void;
+
 	// Scale
 	getScale(): Promise<number>;
 	onScaleChanged(callback: (scale: number) => void): void;
 
+	// Lighting
+	getLightingProfile(): Promise<string>;
+	getLightingCustom(): Promise<LightingCustom | undefined>;
+	onLightingProfileChanged(callback: (profile: string) => void): void;
+	onLightingCustomChanged(callback: (custom: LightingCustom) => void): void;
+
+	// Gateway connection status
+	getGatewayStatus(): Promise<import("../../shared/types.js").GatewayStatus>;
+	onGatewayStatus(callback: (status: import("../../shared/types.js").GatewayStatus) => void): void;
+	retryGateway(): void;
+
+	// Exec approvals
+	getApprovals(): Promise<import("../../shared/types.js").ApprovalRequest[]>;
+	onApprovalsChanged(callback: (approvals: import("../../shared/types.js").ApprovalRequest[]) => void): void;
+
+	// Plugin commands
+	onSetExpression(
+		callback: (expression: import("../../shared/types.js").AvatarExpression, holdMs: number) => void,
+	): void;
+	onPlayGesture(callback: (name: string) => void): void;
+	onSayText(callback: (text: string) => void): void;
+	onLookAt(
+		callback: (target: import("../../shared/types.js").GazeTarget | null, holdMs: number) => void,
+	): void;
+	reportCapabilities(capabilities: import("../../shared/types.js").AvatarCapabilities): void;
+	reportRenderStats(stats: import("../../shared/types.js").RenderStats): void;
+	/** Liveness ping for the main process watchdog; `problem` is set when alive but broken. */
+	heartbeat(problem: string | null): void;
+
 	// Cursor tracking
 	startCursorTracking(): void;
 	stopCursorTracking(): void;
@@ -4,6 +4,8 @@ interface ChatMessage {
 	role: "user" | "assistant";
 	text: string;
 	agentId?: string;
+	/** Sending client, for user messages that came from elsewhere. */
+	source?: string;
 }
 
 interface ChatHistory {
@@ -14,7 +16,8 @@ interface ChatHistory {
 
 interface ChatBridge {
 	onAgentState(callback: (state: import("../../shared/types.js").AgentState) => void): void;
-	sendChat(text: string): void;
+	sendChat(text: string): Promise<import("../../shared/types.js").GatewayActionResult>;
+	abortRun(runId?: string): Promise<import("../../shared/types.js").GatewayActionResult>;
 	setIgnoreMouseEvents(ignore: boolean): void;
 	notifyContentHidden(): void;
 	notifyContentShown(): void;
@@ -25,11 +28,36 @@ interface ChatBridge {
 	appendChatMessage(role: "user" | "assistant", text: string, agentId?: string): void;
 	clearChatHistory(): void;
 	onChatHistoryCleared(callback: () => void): void;
+	/** The followed session's latest messages, after merging the gateway transcript. */
+	onChatHistorySynced(callback: (page: import("../../shared/types.js").ChatHistoryPage) => void): void;
+	/** The page of the followed session's messages before a timestamp. */
+	loadOlderMessages(before: number): Promise<import("../../shared/types.js").ChatHistoryPage>;
+	/** User messages other clients sent to the followed session. */
+	onChatTurn(callback: (turn: import("../../shared/types.js").RemoteChatTurn) => void): void;
 
 	// Idle timeout
 	getIdleTimeout(): Promise<number>;
 	setIdleTimeout(ms: number): void;
 	onIdleTimeoutChanged(callback: (ms: number) => void): void;
+
+	// Gateway sessions
+	getSessions(): Promise<import("../../shared/types.js").SessionsSnapshot>;
+	onSessionsChanged(callback: (snapshot: import("../../shared/types.js").SessionsSnapshot) => void): void;
+	setSessionFollow(follow: import("../../shared/types.js").SessionFollow): void;
+	refreshSessions(): void;
+
+	// Gateway connection status
+	getGatewayStatus(): Promise<import("../../shared/types.js").GatewayStatus>;
+	onGatewayStatus(callback: (status: import("../../shared/types.js").GatewayStatus) => void): void;
+	retryGateway(): void;
+
+	// Exec approvals
+	getApprovals(): Promise<import("../../shared/types.js").ApprovalRequest[]>;
+	onApprovalsChanged(callback: (approvals: import("../../shared/types.js").ApprovalRequest[]) => void): void;
+	resolveApproval(
+		id: string,
+		decision: import("../../shared/types.js").ApprovalDecision,
+	): Promise<import("../../shared/types.js").GatewayActionResult>;
 }
 
 interface Window {
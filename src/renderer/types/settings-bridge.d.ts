@@ -13,11 +13,14 @@ interface SettingsBridge {
 		ttsEnabled: boolean;
 		ttsEngine: "web-speech" | "kokoro";
 		ttsVoice: string;
+		sentimentEnabled: boolean;
+		sentimentStrength: number;
 		lightingProfile: string;
 		lightingCustom?: LightingCustom;
 		vrmModelPath?: string;
 		idleTimeoutMs: number;
 	}>;
+	getGatewayProfiles(): Promise<import("../../shared/types.js").GatewayProfilesSnapshot>;
 
 	// Setters (fire-and-forget send)
 	setOpacity(v: number): void;
@@ -26,6 +29,8 @@ interface SettingsBridge {
 	setTtsEnabled(v: boolean): void;
 	setTtsEngine(v: "web-speech" | "kokoro"): void;
 	setTtsVoice(v: string): void;
+	setSentimentEnabled(v: boolean): void;
+	setSentimentStrength(v: number): void;
 	setIdleTimeout(ms: number): void;
 	setLightingProfile(profile: string): void;
 	setLightingCustom(custom: LightingCustom): void;
@@ -34,6 +39,11 @@ interface SettingsBridge {
 	pickVrmFile(): Promise<string | null>;
 	snapTo(corner: "bottomRight" | "bottomLeft" | "topRight" | "topLeft"): void;
 	clearChat(): void;
+	/** Create (empty id) or update a profile; resolves with why it was rejected. */
+	saveGatewayProfile(profile: import("../../shared/types.js").GatewayProfile): Promise<import("../../shared/types.js").GatewayActionResult>;
+	deleteGatewayProfile(id: string): void;
+	/** null switches to the built-in gateway. */
+	switchGatewayProfile(id: string | null): void;
 	close(): void;
 
 	// Change listeners (main -> settings renderer)
@@ -43,10 +53,13 @@ interface SettingsBridge {
 	onTtsEnabledChanged(cb: (v: boolean) => void): void;
 	onTtsEngineChanged(cb: (v: string) => void): void;
 	onTtsVoiceChanged(cb: (v: string) => void): void;
+	onSentimentEnabledChanged(cb: (v: boolean) => void): void;
+	onSentimentStrengthChanged(cb: (v: number) => void): void;
 	onIdleTimeoutChanged(cb: (ms: number) => void): void;
 	onLightingProfileChanged(cb: (v: string) => void): void;
 	onLightingCustomChanged(cb: (v: LightingCustom) => void): void;
 	onVrmModelChanged(cb: (path: string) => void): void;
+	onGatewayProfilesChanged(cb: (snapshot: import("../../shared/types.js").GatewayProfilesSnapshot) => void): void;
 }
 
 interface Window {
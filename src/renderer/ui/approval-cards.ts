@@ -0,0 +1,121 @@
+import type { ApprovalDecision, ApprovalRequest } from "../../shared/types.js";
+
+export interface ApprovalCards {
+	element: HTMLElement;
+	update(approvals: ApprovalRequest[]): void;
+	hasPending(): boolean;
+	destroy(): void;
+}
+
+export interface ApprovalCardsOptions {
+	/** Fired when the set of pending approvals changes (e.g. to hold the bubble open). */
+	onChange?: (pending: number) => void;
+}
+
+type ApprovalBridge = Pick<ChatBridge, "getApprovals" | "onApprovalsChanged" | "resolveApproval">;
+
+/**
+ * Interactive Approve/Deny cards for exec approval requests.
+ * Cards are keyed by approval id so re-renders keep in-flight button state.
+ */
+export function createApprovalCards(bridge: ApprovalBridge, options?: ApprovalCardsOptions): ApprovalCards {
+	const container = document.createElement("div");
+	container.className = "chat__approvals";
+	container.setAttribute("role", "region");
+	container.setAttribute("aria-label", "Pending approvals");
+
+	const cards = new Map<string, HTMLElement>();
+
+	function createCard(approval: ApprovalRequest): HTMLElement {
+		const card = document.createElement("div");
+		card.className = "approval-card";
+
+		const title = document.createElement("div");
+		title.className = "approval-card__title";
+		title.textContent = approval.agentId ? `${approval.agentId} wants to run` : "Approval needed";
+
+		const command = document.createElement("code");
+		command.className = "approval-card__command";
+		command.textContent = approval.command;
+
+		const meta = document.createElement("div");
+		meta.className = "approval-card__meta";
+		meta.textContent = [approval.host, approval.cwd].filter(Boolean).join(" · ");
+
+		const errorEl = document.createElement("div");
+		errorEl.className = "approval-card__error";
+		errorEl.hidden = true;
+
+		const actions = document.createElement("div");
+		actions.className = "approval-card__actions";
+
+		const approveBtn = document.createElement("button");
+		approveBtn.className = "approval-card__btn approval-card__btn--approve";
+		approveBtn.type = "button";
+		approveBtn.textContent = "Approve";
+
+		const denyBtn = document.createElement("button");
+		denyBtn.className = "approval-card__btn approval-card__btn--deny";
+		denyBtn.type = "button";
+		denyBtn.textContent = "Deny";
+
+		async function decide(decision: ApprovalDecision): Promise<void> {
+			approveBtn.disabled = true;
+			denyBtn.disabled = true;
+			errorEl.hidden = true;
+			const result = await bridge.resolveApproval(approval.id, decision);
+			// On success the main process sends an updated list that removes this card
+			if (!result.ok) {
+				errorEl.textContent = `Could not send decision: ${result.error}`;
+				errorEl.hidden = false;
+				approveBtn.disabled = false;
+				denyBtn.disabled = false;
+			}
+		}
+
+		approveBtn.addEventListener("click", () => void decide("allow-once"));
+		denyBtn.addEventListener("click", () => void decide("deny"));
+
+		actions.appendChild(denyBtn);
+		actions.appendChild(approveBtn);
+		card.appendChild(title);
+		card.appendChild(command);
+		if (meta.textContent) card.appendChild(meta);
+		card.appendChild(errorEl);
+		card.appendChild(actions);
+		return card;
+	}
+
+	function update(approvals: ApprovalRequest[]): void {
+		const ids = new Set(approvals.map((a) => a.id));
+		for (const [id, card] of cards) {
+			if (!ids.has(id)) {
+				card.remove();
+				cards.delete(id);
+			}
+		}
+		for (const approval of approvals) {
+			if (cards.has(approval.id)) continue;
+			const card = createCard(approval);
+			cards.set(approval.id, card);
+			container.appendChild(card);
+		}
+		container.hidden = cards.size === 0;
+		options?.onChange?.(cards.size);
+	}
+
+	bridge.onApprovalsChanged(update);
+	void bridge.getApprovals().then(update);
+
+	function destroy(): void {
+		cards.clear();
+		container.remove();
+	}
+
+	return {
+		element: container,
+		update,
+		hasPending: () => cards.size > 0,
+		destroy,
+	};
+}
@@ -1,12 +1,26 @@
-import type { AgentState, AgentPhase } from "../../shared/types.js";
+import type {
+	AgentState,
+	AgentPhase,
+	ChatHistoryPage,
+	GatewayActionResult,
+	ToolState,
+	TranscriptMessage,
+} from "../../shared/types.js";
 import {
 	CHAT_IDLE_FADE_MS,
+	CHAT_HISTORY_PAGE_SIZE,
+	CHAT_HISTORY_SCROLL_THRESHOLD_PX,
 	CHAT_MAX_HISTORY,
 	CHAT_INPUT_MAX_LENGTH,
 	INPUT_MAX_DISPLAY_CHARS,
 } from "../../shared/config.js";
 import { createTypingIndicator, type TypingIndicator, type IndicatorPhase } from "./typing-indicator.js";
 import { createIcon } from "./icons.js";
+import { createSessionPicker, type SessionPicker } from "./session-picker.js";
+import { createConnectionBanner, type ConnectionBanner } from "./connection-banner.js";
+import { createApprovalCards, type ApprovalCards } from "./approval-cards.js";
+import { createToolCard, type ToolCard } from "./tool-card.js";
+import { createReasoningPanel, type ReasoningPanel } from "./reasoning-panel.js";
 
 export interface ChatBubble {
 	handleAgentState(state: AgentState): void;
@@ -28,7 +42,26 @@ type PersistentBridge = Pick<AvatarBridge | ChatBridge, "sendChat"> & {
 	onChatHistoryCleared?: (callback: () => void) => void;
 	getIdleTimeout?: () => Promise<number>;
 	onIdleTimeoutChanged?: (callback: (ms: number) => void) => void;
-};
+} & Partial<Pick<
+	ChatBridge,
+	| "abortRun"
+	| "getSessions"
+	| "onSessionsChanged"
+	| "setSessionFollow"
+	| "refreshSessions"
+	| "getGatewayStatus"
+	| "onGatewayStatus"
+	| "retryGateway"
+	| "getApprovals"
+	| "onApprovalsChanged"
+	| "resolveApproval"
+	| "onChatTurn"
+	| "onChatHistorySynced"
+	| "loadOlderMessages"
+>>;
+
+/** A message as rendered from history; live turns have no id yet. */
+type ShownMessage = Pick<TranscriptMessage, "role" | "text"> & Partial<TranscriptMessage>;
 
 export function createChatBubble(
 	parent: HTMLElement,
@@ -72,9 +105,64 @@ export function createChatBubble(
 	sendBtn.setAttribute("aria-label", "Send message");
 	sendBtn.appendChild(createIcon("send", { size: 14 }));
 
+	const stopBtn = document.createElement("button");
+	stopBtn.id = "stop-btn";
+	stopBtn.className = "btn btn--icon chat__stop";
+	stopBtn.type = "button";
+	stopBtn.hidden = true;
+	stopBtn.title = "Stop the agent";
+	stopBtn.setAttribute("aria-label", "Stop the running agent turn");
+	stopBtn.appendChild(createIcon("stop", { size: 14 }));
+
 	inputRow.appendChild(inputEl);
 	inputRow.appendChild(charCounter);
+	inputRow.appendChild(stopBtn);
 	inputRow.appendChild(sendBtn);
+
+	// Session picker (only for bridges that expose gateway sessions)
+	let sessionPicker: SessionPicker | null = null;
+	if (bridge.getSessions && bridge.onSessionsChanged && bridge.setSessionFollow && bridge.refreshSessions) {
+		sessionPicker = createSessionPicker({
+			getSessions: bridge.getSessions,
+			onSessionsChanged: bridge.onSessionsChanged,
+			setSessionFollow: bridge.setSessionFollow,
+			refreshSessions: bridge.refreshSessions,
+		});
+		container.appendChild(sessionPicker.element);
+	}
+
+	// Connection banner (only for bridges that expose gateway status)
+	let connectionBanner: ConnectionBanner | null = null;
+	if (bridge.getGatewayStatus && bridge.onGatewayStatus && bridge.retryGateway) {
+		connectionBanner = createConnectionBanner({
+			getGatewayStatus: bridge.getGatewayStatus,
+			onGatewayStatus: bridge.onGatewayStatus,
+			retryGateway: bridge.retryGateway,
+		});
+		container.appendChild(connectionBanner.element);
+	}
+
+	// Exec approval cards (only for bridges that can resolve approvals)
+	let approvalCards: ApprovalCards | null = null;
+	if (bridge.getApprovals && bridge.onApprovalsChanged && bridge.resolveApproval) {
+		approvalCards = createApprovalCards({
+			getApprovals: bridge.getApprovals,
+			onApprovalsChanged: bridge.onApprovalsChanged,
+			resolveApproval: bridge.resolveApproval,
+		}, {
+			onChange(pending) {
+				// Never fade out while a decision is outstanding
+				if (pending > 0) {
+					clearTimers();
+					show();
+				} else if (currentPhase === "idle") {
+					startIdleTimer();
+				}
+			},
+		});
+		container.appendChild(approvalCards.element);
+	}
+
 	container.appendChild(messagesEl);
 	container.appendChild(inputRow);
 	parent.appendChild(container);
@@ -85,11 +173,20 @@ export function createChatBubble(
 	let currentMsgEl: HTMLDivElement | null = null;
 	let currentMsgText = ""; // Track full text for persistence
 	let currentAgentId: string | undefined;
+	let currentRunId: string | undefined;
 	let indicator: TypingIndicator | null = null;
+	// Tool cards of the current run, keyed by tool call id (or tool name)
+	const toolCards = new Map<string, ToolCard>();
+	// Reasoning of the current run, above its reply
+	let reasoningPanel: ReasoningPanel | null = null;
 	let visible = false;
 	let idleTimer: ReturnType<typeof setTimeout> | null = null;
 	let userScrolled = false;
 	let idleTimeoutMs = CHAT_IDLE_FADE_MS;
+	// Scroll-back state: the session the shown history belongs to, and whether older pages exist
+	let historySessionKey: string | null = null;
+	let hasOlder = false;
+	let loadingOlder = false;
 
 	// --- Timer management ---
 	function clearTimers(): void {
@@ -101,6 +198,7 @@ export function createChatBubble(
 
 	function startIdleTimer(): void {
 		clearTimers();
+		if (approvalCards?.hasPending()) return;
 		if (idleTimeoutMs > 0) {
 			idleTimer = setTimeout(() => hide(), idleTimeoutMs);
 		}
@@ -139,6 +237,46 @@ export function createChatBubble(
 		autoScroll();
 	}
 
+	// --- Tool cards ---
+	function showToolCard(tool: ToolState): void {
+		const key = tool.callId ?? tool.name;
+		let card = toolCards.get(key);
+		if (!card) {
+			card = createToolCard();
+			toolCards.set(key, card);
+			messagesEl.appendChild(card.element);
+			pruneHistory();
+		}
+		card.update(tool);
+		autoScroll();
+	}
+
+	// Completed cards stay in the log; cards cut off mid-run are dropped
+	function settleToolCards(): void {
+		for (const card of toolCards.values()) {
+			if (card.isRunning()) card.destroy();
+		}
+		toolCards.clear();
+	}
+
+	// --- Reasoning panel ---
+	function showReasoning(text: string): void {
+		if (!reasoningPanel) {
+			reasoningPanel = createReasoningPanel();
+			// Above the typing indicator, so the dots stay last
+			messagesEl.insertBefore(reasoningPanel.element, indicator?.element ?? null);
+			pruneHistory();
+		}
+		reasoningPanel.update(text);
+		if (reasoningPanel.isOpen()) autoScroll();
+	}
+
+	// The panel stays in the log; the next run gets its own
+	function settleReasoning(): void {
+		reasoningPanel?.finish();
+		reasoningPanel = null;
+	}
+
 	// --- Scroll ---
 	function autoScroll(): void {
 		if (!userScrolled) {
@@ -149,6 +287,7 @@ export function createChatBubble(
 	function onScroll(): void {
 		const atBottom = messagesEl.scrollHeight - messagesEl.scrollTop - messagesEl.clientHeight < 10;
 		userScrolled = !atBottom;
+		if (messagesEl.scrollTop < CHAT_HISTORY_SCROLL_THRESHOLD_PX) void loadOlder();
 	}
 
 	messagesEl.addEventListener("scroll", onScroll);
@@ -157,6 +296,8 @@ export function createChatBubble(
 	function pruneHistory(): void {
 		while (messagesEl.children.length > CHAT_MAX_HISTORY) {
 			messagesEl.removeChild(messagesEl.firstChild!);
+			// Still in the history, so scrolling back brings it again
+			hasOlder = true;
 		}
 	}
 
@@ -167,34 +308,146 @@ export function createChatBubble(
 		currentMsgText = "";
 		currentAgentId = undefined;
 		removeStatus();
+		settleToolCards();
+		reasoningPanel = null;
 		userScrolled = false;
+		hasOlder = false;
 	}
 
-	// --- Append message to DOM (for loading history) ---
-	function appendMessageToDOM(role: "user" | "assistant", text: string): void {
+	// --- Render a message from history or another client ---
+	function createMessageElement(msg: ShownMessage): HTMLDivElement {
+		const { role, text, source } = msg;
 		const msgDiv = document.createElement("div");
 		// Use both legacy and BEM classes for compatibility
 		msgDiv.className = role === "user"
 			? "message message--user chat-user-msg"
 			: "message message--assistant chat-assistant-msg";
-		msgDiv.textContent = text;
-		messagesEl.appendChild(msgDiv);
+		if (msg.id) msgDiv.dataset.messageId = msg.id;
+		if (msg.timestamp) msgDiv.dataset.timestamp = String(msg.timestamp);
+		if (source) {
+			// Sent from the CLI, web UI or another overlay rather than typed here
+			msgDiv.classList.add("message--remote");
+			const sourceEl = document.createElement("span");
+			sourceEl.className = "message__source";
+			sourceEl.textContent = `via ${source}`;
+			const textEl = document.createElement("span");
+			textEl.textContent = text;
+			msgDiv.appendChild(sourceEl);
+			msgDiv.appendChild(textEl);
+		} else {
+			msgDiv.textContent = text;
+		}
+		return msgDiv;
+	}
+
+	function appendMessageToDOM(msg: ShownMessage): void {
+		messagesEl.appendChild(createMessageElement(msg));
 		pruneHistory();
 	}
 
+	function isShown(id: string): boolean {
+		return messagesEl.querySelector(`[data-message-id="${CSS.escape(id)}"]`) !== null;
+	}
+
+	/** Time of the oldest message shown from history; live turns carry none. */
+	function oldestShownTimestamp(): number | null {
+		const el = messagesEl.querySelector<HTMLElement>("[data-timestamp]");
+		return el ? Number(el.dataset.timestamp) : null;
+	}
+
+	// --- Replace the shown history with a synced page ---
+	function renderHistory(page: ChatHistoryPage): void {
+		// Keep the running turn and sends that haven't reached the transcript yet
+		const live = [...messagesEl.children].filter((el) =>
+			el === currentMsgEl
+			|| el === indicator?.element
+			|| el === reasoningPanel?.element
+			|| [...toolCards.values()].some((card) => card.element === el)
+			|| el.classList.contains("message--pending")
+			|| el.classList.contains("message--failed"));
+		messagesEl.textContent = "";
+		for (const msg of page.messages) appendMessageToDOM(msg);
+		for (const el of live) messagesEl.appendChild(el);
+		historySessionKey = page.sessionKey;
+		hasOlder = page.hasMore;
+		userScrolled = false;
+		autoScroll();
+	}
+
+	// --- Scroll back: prepend the page before the oldest shown message ---
+	async function loadOlder(): Promise<void> {
+		if (!hasOlder || loadingOlder || !bridge.loadOlderMessages) return;
+		const before = oldestShownTimestamp();
+		if (before === null) return;
+		loadingOlder = true;
+		try {
+			const page = await bridge.loadOlderMessages(before);
+			// The followed session changed while we waited
+			if (historySessionKey !== null && page.sessionKey !== historySessionKey) return;
+			const fresh = page.messages.filter((msg) => !isShown(msg.id));
+			// Hold the view still while content grows above it
+			const fromBottom = messagesEl.scrollHeight - messagesEl.scrollTop;
+			const first = messagesEl.firstChild;
+			for (const msg of fresh) messagesEl.insertBefore(createMessageElement(msg), first);
+			messagesEl.scrollTop = messagesEl.scrollHeight - fromBottom;
+			hasOlder = page.hasMore && fresh.length > 0;
+		} catch (err) {
+			console.warn("[chat-bubble] Failed to load older messages:", err);
+		} finally {
+			loadingOlder = false;
+		}
+	}
+
 	// --- Send message ---
-	function sendMessage(text: string): void {
-		bridge.sendChat(text);
+	async function deliverMessage(msgDiv: HTMLDivElement, text: string): Promise<void> {
+		msgDiv.classList.add("message--pending");
+		msgDiv.classList.remove("message--failed");
+		msgDiv.querySelector(".message__failure")?.remove();
 
+		let result: GatewayActionResult;
+		try {
+			result = await bridge.sendChat(text);
+		} catch (err) {
+			result = { ok: false, error: err instanceof Error ? err.message : String(err) };
+		}
+		msgDiv.classList.remove("message--pending");
+
+		// Main persists accepted messages with the session key they were sent to
+		if (result.ok) return;
+
+		msgDiv.classList.add("message--failed");
+		const failure = document.createElement("div");
+		failure.className = "message__failure";
+
+		const reason = document.createElement("span");
+		reason.className = "message__failure-reason";
+		reason.textContent = `Not sent: ${result.error}`;
+
+		const retryBtn = document.createElement("button");
+		retryBtn.className = "message__retry";
+		retryBtn.type = "button";
+		retryBtn.textContent = "Retry";
+		retryBtn.addEventListener("click", () => {
+			void deliverMessage(msgDiv, text);
+		}, { once: true });
+
+		failure.appendChild(reason);
+		failure.appendChild(retryBtn);
+		msgDiv.appendChild(failure);
+		autoScroll();
+	}
+
+	function sendMessage(text: string): void {
 		const msgDiv = document.createElement("div");
 		// Use both legacy and BEM classes for compatibility
 		msgDiv.className = "message message--user chat-user-msg";
-		msgDiv.textContent = text;
+		const textEl = document.createElement("span");
+		textEl.textContent = text;
+		msgDiv.appendChild(textEl);
 		messagesEl.appendChild(msgDiv);
 		pruneHistory();
 
-		// Persist user message
-		bridge.appendChatMessage?.("user", text);
+		void deliverMessage(msgDiv, text);
 
 		inputEl.value = "";
 		sendBtn.disabled = true;
@@ -243,15 +496,30 @@ export function createChatBubble(
 
 		// Don't clear messages - we want to preserve chat history
 		removeStatus();
+		settleToolCards();
+		settleReasoning();
 		createStatus("thinking");
 		currentMsgEl = null;
 		currentAgentId = state.agentId;
 		show();
 	}
 
+	function handleReasoning(state: AgentState): void {
+		clearTimers();
+		showReasoning(state.reasoning ?? "");
+		// Reasoning resumed after a reply or tool: that part of the turn is over
+		if (currentMsgEl) {
+			persistCurrentAssistantMessage();
+			currentMsgEl = null;
+		}
+		if (!indicator) createStatus("thinking");
+		show();
+	}
+
 	function handleSpeaking(state: AgentState): void {
 		clearTimers();
 		removeStatus();
+		reasoningPanel?.finish();
 		if (currentMsgEl === null) {
 			currentMsgEl = document.createElement("div");
 			// Use both legacy and BEM classes for compatibility
@@ -271,29 +539,92 @@ export function createChatBubble(
 		startIdleTimer();
 	}
 
-	function handleWorking(_state: AgentState): void {
+	function handleWorking(state: AgentState): void {
 		clearTimers();
 
 		// Persist any pending assistant message
 		persistCurrentAssistantMessage();
 
 		removeStatus();
-		createStatus("working");
+		reasoningPanel?.finish();
+		if (state.tool) {
+			showToolCard(state.tool);
+		} else {
+			createStatus("working");
+		}
+		currentMsgEl = null;
+		show();
+	}
+
+	function handleError(state: AgentState): void {
+		clearTimers();
+		persistCurrentAssistantMessage();
+		removeStatus();
+		settleToolCards();
+		settleReasoning();
 		currentMsgEl = null;
+
+		const card = document.createElement("div");
+		card.className = "error-card";
+		card.setAttribute("role", "alert");
+		const title = document.createElement("div");
+		title.className = "error-card__title";
+		title.textContent = "The run failed";
+		const message = document.createElement("div");
+		message.className = "error-card__message";
+		message.textContent = state.error ?? "The agent run failed";
+		card.appendChild(title);
+		card.appendChild(message);
+		messagesEl.appendChild(card);
+		pruneHistory();
+		autoScroll();
+		// No idle fade: the failure stays up until the next run settles or the user hides it
 		show();
 	}
 
-	function handleIdle(_state: AgentState): void {
+	function handleIdle(state: AgentState): void {
 		clearTimers();
 
+		if (state.interrupted && currentMsgEl) {
+			currentMsgEl.classList.add("message--interrupted");
+		}
+
 		// Persist any pending assistant message when going idle
 		persistCurrentAssistantMessage();
 
 		removeStatus();
+		settleToolCards();
+		settleReasoning();
 		currentMsgEl = null;
 		startIdleTimer();
 	}
 
+	// --- Stop button ---
+	function updateStopButton(): void {
+		const running = currentPhase !== "idle" && currentPhase !== "error";
+		stopBtn.hidden = !running || !bridge.abortRun;
+		if (!running) {
+			stopBtn.disabled = false;
+			stopBtn.title = "Stop the agent";
+		}
+	}
+
+	async function onStopClick(): Promise<void> {
+		if (!bridge.abortRun) return;
+		stopBtn.disabled = true;
+		const result = await bridge.abortRun(currentRunId);
+		if (!result.ok) {
+			stopBtn.disabled = false;
+			stopBtn.title = `Stop failed: ${result.error}`;
+		}
+	}
+
+	function onStopButton(): void {
+		void onStopClick();
+	}
+
+	stopBtn.addEventListener("click", onStopButton);
+
 	// --- Input handling ---
 	function onInput(): void {
 		const len = inputEl.value.length;
@@ -327,6 +658,19 @@ export function createChatBubble(
 		clearMessages();
 	});
 
+	// --- Gateway transcript merged in on connect or session switch ---
+	bridge.onChatHistorySynced?.((page) => {
+		renderHistory(page);
+	});
+
+	// --- User turns other clients sent to the followed session ---
+	bridge.onChatTurn?.((turn) => {
+		appendMessageToDOM({ role: "user", text: turn.text, source: turn.source, timestamp: turn.timestamp });
+		autoScroll();
+		show();
+		if (currentPhase === "idle") startIdleTimer();
+	});
+
 	// --- Listen for idle timeout changes ---
 	bridge.onIdleTimeoutChanged?.((ms) => {
 		idleTimeoutMs = ms;
@@ -341,10 +685,15 @@ export function createChatBubble(
 	function handleAgentState(state: AgentState): void {
 		prevPhase = currentPhase;
 		currentPhase = state.phase;
+		if (state.runId) currentRunId = state.runId;
 
 		switch (state.phase) {
 			case "thinking":
-				handleThinking(state);
+				if (state.reasoning !== undefined) {
+					handleReasoning(state);
+				} else {
+					handleThinking(state);
+				}
 				break;
 			case "speaking":
 				handleSpeaking(state);
@@ -352,10 +701,14 @@ export function createChatBubble(
 			case "working":
 				handleWorking(state);
 				break;
+			case "error":
+				handleError(state);
+				break;
 			case "idle":
 				handleIdle(state);
 				break;
 		}
+		updateStopButton();
 	}
 
 	function toggle(): void {
@@ -371,11 +724,14 @@ export function createChatBubble(
 
 		try {
 			const history = await bridge.getChatHistory();
-			// Load last 50 messages for performance
-			const recent = history.messages.slice(-50);
+			// The gateway transcript got here first
+			if (historySessionKey !== null) return;
+			// Load one page for performance; older ones load on scroll
+			const recent = history.messages.slice(-CHAT_HISTORY_PAGE_SIZE);
 			for (const msg of recent) {
-				appendMessageToDOM(msg.role, msg.text);
+				appendMessageToDOM(msg);
 			}
+			hasOlder = recent.length > 0;
 			autoScroll();
 		} catch (err) {
 			console.warn("[chat-bubble] Failed to load chat history:", err);
@@ -385,10 +741,15 @@ export function createChatBubble(
 	function destroy(): void {
 		clearTimers();
 		removeStatus();
+		settleToolCards();
 		inputEl.removeEventListener("keydown", onKeydown);
 		inputEl.removeEventListener("input", onInput);
 		sendBtn.removeEventListener("click", onSendClick);
+		stopBtn.removeEventListener("click", onStopButton);
 		messagesEl.removeEventListener("scroll", onScroll);
+		sessionPicker?.destroy();
+		connectionBanner?.destroy();
+		approvalCards?.destroy();
 		container.remove();
 	}
 
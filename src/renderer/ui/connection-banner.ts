@@ -0,0 +1,79 @@
+import type { GatewayStatus } from "../../shared/types.js";
+import { describeGatewayStatus, canRetryGateway } from "../../shared/gateway-status.js";
+
+export interface ConnectionBanner {
+	element: HTMLElement;
+	update(status: GatewayStatus): void;
+	destroy(): void;
+}
+
+type ConnectionBridge = Pick<ChatBridge, "getGatewayStatus" | "onGatewayStatus" | "retryGateway">;
+
+/**
+ * Banner shown above the chat messages while the gateway is not connected.
+ * Counts down to the next automatic retry and offers "Retry now".
+ */
+export function createConnectionBanner(bridge: ConnectionBridge): ConnectionBanner {
+	const container = document.createElement("div");
+	container.className = "chat__connection-banner";
+	container.setAttribute("role", "status");
+	container.setAttribute("aria-live", "polite");
+	container.hidden = true;
+
+	const messageEl = document.createElement("span");
+	messageEl.className = "chat__connection-message";
+
+	const retryBtn = document.createElement("button");
+	retryBtn.className = "chat__connection-retry";
+	retryBtn.type = "button";
+	retryBtn.textContent = "Retry now";
+
+	container.appendChild(messageEl);
+	container.appendChild(retryBtn);
+
+	let status: GatewayStatus | null = null;
+	let countdownTimer: ReturnType<typeof setInterval> | null = null;
+
+	function stopCountdown(): void {
+		if (countdownTimer !== null) {
+			clearInterval(countdownTimer);
+			countdownTimer = null;
+		}
+	}
+
+	function render(): void {
+		if (!status) return;
+		messageEl.textContent = describeGatewayStatus(status);
+	}
+
+	function update(next: GatewayStatus): void {
+		status = next;
+		stopCountdown();
+
+		container.hidden = next.state === "connected";
+		container.dataset.state = next.state;
+		retryBtn.hidden = !canRetryGateway(next);
+		render();
+
+		if (next.nextRetryAt !== undefined && !container.hidden) {
+			countdownTimer = setInterval(render, 1000);
+		}
+	}
+
+	function onRetry(): void {
+		bridge.retryGateway();
+	}
+
+	retryBtn.addEventListener("click", onRetry);
+
+	bridge.onGatewayStatus(update);
+	void bridge.getGatewayStatus().then(update);
+
+	function destroy(): void {
+		stopCountdown();
+		retryBtn.removeEventListener("click", onRetry);
+		container.remove();
+	}
+
+	return { element: container, update, destroy };
+}
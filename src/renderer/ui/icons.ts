@@ -1,4 +1,4 @@
-export type IconName = "drag" | "chat" | "settings" | "send" | "close";
+export type IconName = "drag" | "chat" | "settings" | "send" | "close" | "stop";
 
 const ICONS: Record<IconName, string> = {
 	drag: `<circle cx="5" cy="4" r="1"/><circle cx="11" cy="4" r="1"/><circle cx="5" cy="8" r="1"/><circle cx="11" cy="8" r="1"/><circle cx="5" cy="12" r="1"/><circle cx="11" cy="12" r="1"/>`,
@@ -6,6 +6,7 @@ const ICONS: Record<IconName, string> = {
 	settings: `<circle cx="8" cy="8" r="2"/><path d="M8 1v2M8 13v2M1 8h2M13 8h2M2.9 2.9l1.4 1.4M11.7 11.7l1.4 1.4M2.9 13.1l1.4-1.4M11.7 4.3l1.4-1.4"/>`,
 	send: `<path d="M14 2L7 9M14 2l-5 12-2-5-5-2 12-5z"/>`,
 	close: `<path d="M4 4l8 8M12 4l-8 8"/>`,
+	stop: `<rect x="4" y="4" width="8" height="8" rx="1.5"/>`,
 };
 
 export interface IconOptions {
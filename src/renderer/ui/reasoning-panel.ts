@@ -0,0 +1,79 @@
+import { REASONING_PREVIEW_MAX_CHARS } from "../../shared/config.js";
+
+export interface ReasoningPanel {
+	element: HTMLElement;
+	/** Show the run's reasoning so far (cumulative, not a delta). */
+	update(text: string): void;
+	/** Reasoning paused for the reply or ended with the run. */
+	finish(): void;
+	isOpen(): boolean;
+	destroy(): void;
+}
+
+/** Last non-empty line, trimmed from the front to fit the collapsed summary. */
+function previewOf(text: string): string {
+	const lines = text.split("\n");
+	for (let i = lines.length - 1; i >= 0; i--) {
+		const line = lines[i].trim();
+		if (!line) continue;
+		return line.length > REASONING_PREVIEW_MAX_CHARS ? `…${line.slice(-REASONING_PREVIEW_MAX_CHARS)}` : line;
+	}
+	return "";
+}
+
+/**
+ * Collapsible, dimmed block with the model's streamed reasoning. Collapsed it
+ * shows the latest line while reasoning and how long it took afterwards.
+ */
+export function createReasoningPanel(): ReasoningPanel {
+	const container = document.createElement("details");
+	container.className = "reasoning-panel";
+
+	const summary = document.createElement("summary");
+	summary.className = "reasoning-panel__summary";
+
+	const labelEl = document.createElement("span");
+	labelEl.className = "reasoning-panel__label";
+
+	const previewEl = document.createElement("span");
+	previewEl.className = "reasoning-panel__preview";
+
+	summary.appendChild(labelEl);
+	summary.appendChild(previewEl);
+
+	const textEl = document.createElement("div");
+	textEl.className = "reasoning-panel__text";
+
+	container.appendChild(summary);
+	container.appendChild(textEl);
+
+	const startedAt = Date.now();
+	let active = false;
+
+	return {
+		element: container,
+
+		update(text) {
+			active = true;
+			container.dataset.active = "true";
+			labelEl.textContent = "Thinking…";
+			previewEl.textContent = previewOf(text);
+			textEl.textContent = text;
+		},
+
+		finish() {
+			if (!active) return;
+			active = false;
+			delete container.dataset.active;
+			const seconds = Math.max(1, Math.round((Date.now() - startedAt) / 1000));
+			labelEl.textContent = `Thought for ${seconds}s`;
+			previewEl.textContent = "";
+		},
+
+		isOpen: () => container.open,
+
+		destroy() {
+			container.remove();
+		},
+	};
+}
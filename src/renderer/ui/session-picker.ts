@@ -0,0 +1,94 @@
+import type { SessionFollow, SessionsSnapshot } from "../../shared/types.js";
+
+export interface SessionPicker {
+	element: HTMLElement;
+	update(snapshot: SessionsSnapshot): void;
+	destroy(): void;
+}
+
+type SessionBridge = Pick<ChatBridge, "getSessions" | "onSessionsChanged" | "setSessionFollow" | "refreshSessions">;
+
+const PIN_PREFIX = "pin:";
+
+/**
+ * Compact header row for choosing which gateway session the avatar follows.
+ * Option values: "recent", "allowlist", or "pin:<sessionKey>".
+ */
+export function createSessionPicker(bridge: SessionBridge): SessionPicker {
+	const container = document.createElement("div");
+	container.className = "chat__session-row";
+
+	const select = document.createElement("select");
+	select.className = "chat__session-select";
+	select.setAttribute("aria-label", "Followed session");
+
+	const refreshBtn = document.createElement("button");
+	refreshBtn.className = "chat__session-refresh";
+	refreshBtn.type = "button";
+	refreshBtn.textContent = "↻";
+	refreshBtn.title = "Refresh sessions";
+	refreshBtn.setAttribute("aria-label", "Refresh sessions");
+
+	container.appendChild(select);
+	container.appendChild(refreshBtn);
+
+	let follow: SessionFollow = { mode: "recent", pinnedSessionKey: null, allowlist: [] };
+
+	function addOption(value: string, label: string): void {
+		const option = document.createElement("option");
+		option.value = value;
+		option.textContent = label;
+		select.appendChild(option);
+	}
+
+	function update(snapshot: SessionsSnapshot): void {
+		follow = snapshot.follow;
+		select.textContent = "";
+
+		const current = snapshot.currentSessionKey;
+		addOption("recent", current && follow.mode === "recent" ? `Most recent (${current})` : "Most recent");
+		if (follow.allowlist.length > 0) {
+			addOption("allowlist", `Allowlist (${follow.allowlist.length})`);
+		}
+
+		const keys = snapshot.sessions.map((s) => s.key);
+		// Keep a pinned session selectable even if the gateway no longer lists it
+		if (follow.pinnedSessionKey && !keys.includes(follow.pinnedSessionKey)) {
+			addOption(PIN_PREFIX + follow.pinnedSessionKey, follow.pinnedSessionKey);
+		}
+		for (const session of snapshot.sessions) {
+			addOption(PIN_PREFIX + session.key, session.displayName ?? session.key);
+		}
+
+		select.value = follow.mode === "pinned" && follow.pinnedSessionKey
+			? PIN_PREFIX + follow.pinnedSessionKey
+			: follow.mode;
+	}
+
+	function onChange(): void {
+		const value = select.value;
+		if (value.startsWith(PIN_PREFIX)) {
+			bridge.setSessionFollow({ ...follow, mode: "pinned", pinnedSessionKey: value.slice(PIN_PREFIX.length) });
+		} else if (value === "recent" || value === "allowlist") {
+			bridge.setSessionFollow({ ...follow, mode: value });
+		}
+	}
+
+	function onRefresh(): void {
+		bridge.refreshSessions();
+	}
+
+	select.addEventListener("change", onChange);
+	refreshBtn.addEventListener("click", onRefresh);
+
+	bridge.onSessionsChanged(update);
+	void bridge.getSessions().then(update);
+
+	function destroy(): void {
+		select.removeEventListener("change", onChange);
+		refreshBtn.removeEventListener("click", onRefresh);
+		container.remove();
+	}
+
+	return { element: container, update, destroy };
+}
@@ -0,0 +1,98 @@
+import type { ToolState } from "../../shared/types.js";
+
+export interface ToolCard {
+	element: HTMLElement;
+	update(tool: ToolState): void;
+	isRunning(): boolean;
+	destroy(): void;
+}
+
+function formatDuration(ms: number): string {
+	if (ms < 1000) return `${Math.round(ms)}ms`;
+	const seconds = ms / 1000;
+	if (seconds < 60) return `${seconds.toFixed(seconds < 10 ? 1 : 0)}s`;
+	const minutes = Math.floor(seconds / 60);
+	return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+/**
+ * Live card for one tool call: caption, tool name and argument summary,
+ * with an elapsed-time counter while running and the final duration after.
+ */
+export function createToolCard(): ToolCard {
+	const container = document.createElement("div");
+	container.className = "tool-card";
+	container.setAttribute("role", "status");
+
+	const header = document.createElement("div");
+	header.className = "tool-card__header";
+
+	const captionEl = document.createElement("span");
+	captionEl.className = "tool-card__caption";
+
+	const timeEl = document.createElement("span");
+	timeEl.className = "tool-card__time";
+
+	header.appendChild(captionEl);
+	header.appendChild(timeEl);
+
+	const nameEl = document.createElement("div");
+	nameEl.className = "tool-card__name";
+
+	const argsEl = document.createElement("code");
+	argsEl.className = "tool-card__args";
+	argsEl.hidden = true;
+
+	container.appendChild(header);
+	container.appendChild(nameEl);
+	container.appendChild(argsEl);
+
+	let tool: ToolState | null = null;
+	let elapsedTimer: ReturnType<typeof setInterval> | null = null;
+
+	function stopElapsed(): void {
+		if (elapsedTimer !== null) {
+			clearInterval(elapsedTimer);
+			elapsedTimer = null;
+		}
+	}
+
+	function renderTime(): void {
+		if (!tool) return;
+		if (tool.durationMs !== undefined) {
+			timeEl.textContent = tool.status === "error"
+				? `failed after ${formatDuration(tool.durationMs)}`
+				: formatDuration(tool.durationMs);
+		} else {
+			timeEl.textContent = formatDuration(Math.max(0, Date.now() - tool.startedAt));
+		}
+	}
+
+	function update(next: ToolState): void {
+		tool = next;
+		container.dataset.status = next.status;
+		captionEl.textContent = next.activity?.caption ?? "Using a tool";
+		nameEl.textContent = next.name;
+		argsEl.textContent = next.args ?? "";
+		argsEl.hidden = !next.args;
+		renderTime();
+
+		if (next.status === "running") {
+			if (elapsedTimer === null) elapsedTimer = setInterval(renderTime, 1000);
+		} else {
+			stopElapsed();
+		}
+	}
+
+	function destroy(): void {
+		stopElapsed();
+		container.remove();
+	}
+
+	return {
+		element: container,
+		update,
+		isRunning: () => tool?.status === "running",
+		destroy,
+	};
+}
@@ -1,113 +1,390 @@
 import { spawn, type ChildProcess } from "node:child_process";
 import * as path from "node:path";
+import * as readline from "node:readline";
 import type { OpenClawPluginApi, OpenClawPluginService, OpenClawPluginServiceContext } from "openclaw/plugin-sdk";
-import { resolveElectronBinary, resolveElectronMain, buildElectronArgs } from "./electron-launcher.js";
-
-export type StdinMessage =
-	| { type: "show" }
-	| { type: "hide" }
-	| { type: "shutdown" }
-	| { type: "model-switch"; vrmPath: string };
+import { resolveElectronBinary, resolveElectronMain, buildElectronArgs, buildLaunchConfig } from "./electron-launcher.js";
+import {
+	createRpcPeer,
+	type AvatarRpcEvents,
+	type AvatarRpcMethods,
+	type ConfigDelta,
+	type RpcPeer,
+} from "./shared/service-rpc.js";
+import type { AvatarCapabilities } from "./shared/types.js";
+import { resolveWatchdogConfig } from "./shared/watchdog.js";
+import { createElectronWatchdog, type ElectronWatchdog } from "./watchdog.js";
+import {
+	CRASH_REPORT_PATH,
+	createCrashLoopBreaker,
+	readCrashReport,
+	writeCrashReport,
+	type ElectronFailure,
+} from "./crash-report.js";
+import {
+	createPluginConfigValidator,
+	diffPluginConfig,
+	watchPluginConfig,
+	type PluginConfig,
+	type PluginConfigValidator,
+	type PluginConfigWatcher,
+} from "./plugin-config.js";
+
+export type FlawedAvatarService = OpenClawPluginService & {
+	/** Call into the running Electron process; rejects when it isn't running. */
+	request<M extends keyof AvatarRpcMethods>(
+		method: M,
+		params?: AvatarRpcMethods[M]["params"],
+	): Promise<AvatarRpcMethods[M]["result"]>;
+	/** What the loaded model can do; null while the avatar isn't running. */
+	getCapabilities(): AvatarCapabilities | null;
+	/** The last crash-loop report, and whether restarts are paused because of it. */
+	getCrashReport(): { paused: boolean; path: string; report: string | null };
+	/** Resume restarts after a crash loop and start the avatar; false when they weren't paused. */
+	rearm(): boolean;
+};
 
 const RESTART_BASE_MS = 5_000;
 const RESTART_MAX_MS = 30_000;
 const RESTART_RESET_MS = 60_000;
+// Give up after this many failed runs within the window: the cause is likely permanent
+const CRASH_LOOP_MAX_FAILURES = 5;
+const CRASH_LOOP_WINDOW_MS = 5 * 60_000;
+const STDERR_TAIL_LINES = 20;
+
+// Config keys the running avatar picks up without a restart
+const LIVE_CONFIG_KEYS = ["gatewayUrl", "vrmPath", "agents", "toolActivities", "watchdog"] as const;
 
-export function createFlawedAvatarService(api: OpenClawPluginApi) {
+export function createFlawedAvatarService(api: OpenClawPluginApi): FlawedAvatarService {
 	let child: ChildProcess | null = null;
+	let rpc: RpcPeer | null = null;
 	let stopped = false;
 	let restartBackoffMs = RESTART_BASE_MS;
 	let restartTimer: ReturnType<typeof setTimeout> | null = null;
-	let startedAt: number | null = null;
+	let capabilities: AvatarCapabilities | null = null;
+	// Set when a config change needs a fresh process rather than the usual backoff restart
+	let respawnPending = false;
+	let configWatcher: PluginConfigWatcher | null = null;
+	let watchdog: ElectronWatchdog | null = null;
+	let serviceCtx: OpenClawPluginServiceContext | null = null;
+	const breaker = createCrashLoopBreaker({ maxFailures: CRASH_LOOP_MAX_FAILURES, windowMs: CRASH_LOOP_WINDOW_MS });
 
 	const pluginDir = path.resolve(api.source, "..");
+	// Kept current by the config watcher; each spawn reads the latest
+	let pluginConfig: PluginConfig = { ...(api.pluginConfig as PluginConfig | undefined) };
+
+	function request<M extends keyof AvatarRpcMethods>(
+		method: M,
+		params?: AvatarRpcMethods[M]["params"],
+	): Promise<AvatarRpcMethods[M]["result"]> {
+		if (!rpc) {
+			const reason = breaker.isTripped() ? " (restarts paused after repeated crashes, see /flawed_crashes)" : "";
+			return Promise.reject(new Error(`avatar is not running${reason}`));
+		}
+		return rpc.request(method, params);
+	}
+
+	function handleEvent(ctx: OpenClawPluginServiceContext, method: string, params: unknown): void {
+		switch (method as keyof AvatarRpcEvents) {
+			case "ready": {
+				const { pid } = params as AvatarRpcEvents["ready"];
+				ctx.logger.info(`flawed-avatar: ready (pid=${pid})`);
+				// The renderer may have reported before we were listening
+				request("getCapabilities").then((caps) => {
+					capabilities ??= caps;
+				}).catch(() => {});
+				break;
+			}
+			case "visibilityChanged": {
+				const { visible } = params as AvatarRpcEvents["visibilityChanged"];
+				ctx.logger.info(`flawed-avatar: avatar ${visible ? "shown" : "hidden"}`);
+				break;
+			}
+			case "gatewayStatus": {
+				const status = params as AvatarRpcEvents["gatewayStatus"];
+				ctx.logger.info(`flawed-avatar: gateway ${status.state}${status.error ? ` (${status.error})` : ""}`);
+				break;
+			}
+			case "capabilities":
+				capabilities = params as AvatarRpcEvents["capabilities"];
+				break;
+			case "error": {
+				const { source, message } = params as AvatarRpcEvents["error"];
+				ctx.logger.error(`flawed-avatar: ${source}: ${message}`);
+				break;
+			}
+			case "heartbeat":
+				watchdog?.heartbeat(params as AvatarRpcEvents["heartbeat"]);
+				break;
+			case "rendererRecovered": {
+				if (!watchdog) break;
+				const { summary, respawn } = watchdog.rendererRecovered(params as AvatarRpcEvents["rendererRecovered"]);
+				if (respawn) {
+					ctx.logger.error(`flawed-avatar: watchdog: ${summary}; restarting Electron`);
+					respawnElectron(ctx);
+				} else {
+					ctx.logger.warn(`flawed-avatar: watchdog: ${summary}; window reloaded`);
+				}
+				break;
+			}
+		}
+	}
+
+	/** Back off and try again, unless failures keep coming and the breaker trips. */
+	function scheduleRestart(ctx: OpenClawPluginServiceContext, failure: ElectronFailure): void {
+		if (breaker.record(failure)) {
+			let where = CRASH_REPORT_PATH;
+			try {
+				where = writeCrashReport(pluginDir, breaker.failures(), CRASH_LOOP_WINDOW_MS);
+			} catch (err) {
+				where = `nowhere (${(err as Error).message})`;
+			}
+			ctx.logger.error(
+				`flawed-avatar: ${CRASH_LOOP_MAX_FAILURES} failed runs within ${Math.round(CRASH_LOOP_WINDOW_MS / 60_000)} minutes, `
+				+ "no more automatic restarts. "
+				+ `Report written to ${where}; run /flawed_crashes to see it and try again`,
+			);
+			return;
+		}
+
+		// Reset backoff if process ran long enough
+		if (failure.uptimeMs >= RESTART_RESET_MS) {
+			restartBackoffMs = RESTART_BASE_MS;
+		}
+
+		restartTimer = setTimeout(() => {
+			restartTimer = null;
+			if (!stopped) {
+				ctx.logger.info(`flawed-avatar: restarting (backoff=${restartBackoffMs}ms)`);
+				spawnElectron(ctx);
+			}
+		}, restartBackoffMs);
 
-	function send(msg: StdinMessage): void {
-		if (!child?.stdin?.writable) return;
-		child.stdin.write(JSON.stringify(msg) + "\n");
+		restartBackoffMs = Math.min(restartBackoffMs * 2, RESTART_MAX_MS);
 	}
 
 	function spawnElectron(ctx: OpenClawPluginServiceContext): void {
-		const electronPath = resolveElectronBinary(pluginDir);
-		const mainEntry = resolveElectronMain(pluginDir);
-
-		const config = api.pluginConfig as Record<string, unknown> | undefined;
-		const gatewayUrl = (config?.gatewayUrl as string) ?? "ws://127.0.0.1:18789";
-		const vrmPath = config?.vrmPath as string | undefined;
-		const authToken = (config?.authToken as string | undefined)
-			?? process.env.OPENCLAW_GATEWAY_TOKEN;
-
-		// Serialize per-agent VRM configs so Electron can read them
-		const agents = config?.agents as Record<string, { vrmPath?: string }> | undefined;
-		const agentConfigs = agents ? JSON.stringify(agents) : undefined;
-
-		const args = buildElectronArgs({
-			mainEntry,
-			gatewayUrl,
-			vrmPath,
-			agentConfigs,
-			authToken,
+		const launchedAt = Date.now();
+		const stderrTail: string[] = [];
+		// "error" and "exit" can both fire for one process; handle whichever comes first
+		let ended = false;
+
+		let proc: ChildProcess;
+		let launchConfig: ReturnType<typeof buildLaunchConfig>;
+		const config = pluginConfig;
+		try {
+			const electronPath = resolveElectronBinary(pluginDir);
+			const mainEntry = resolveElectronMain(pluginDir);
+
+			const gatewayUrl = (config.gatewayUrl as string) ?? "ws://127.0.0.1:18789";
+			const vrmPath = config.vrmPath as string | undefined;
+			const authToken = (config.authToken as string | undefined)
+				?? process.env.OPENCLAW_GATEWAY_TOKEN;
+
+			const args = buildElectronArgs({
+				mainEntry,
+				gatewayUrl,
+				vrmPath,
+			});
+			// Per-agent overrides and tool rules are validated in detail by Electron
+			launchConfig = buildLaunchConfig({
+				authToken,
+				agentConfigs: config.agents,
+				toolActivities: config.toolActivities,
+				watchdog: config.watchdog,
+			});
+
+			proc = spawn(electronPath, args, {
+				stdio: ["pipe", "pipe", "pipe"],
+				env: { ...process.env },
+			});
+		} catch (err) {
+			const error = (err as Error).message;
+			ctx.logger.error(`flawed-avatar: cannot start Electron: ${error}`);
+			scheduleRestart(ctx, { at: Date.now(), code: null, signal: null, error, uptimeMs: 0, stderr: [] });
+			return;
+		}
+		child = proc;
+
+		// A hung main process never exits on its own: kill it and let the exit handler restart it
+		const procWatchdog = createElectronWatchdog({
+			pid: proc.pid,
+			config: resolveWatchdogConfig(config.watchdog),
+			onUnresponsive: (summary) => {
+				ctx.logger.error(`flawed-avatar: watchdog: ${summary}; killing Electron`);
+				proc.kill("SIGKILL");
+			},
 		});
+		watchdog = procWatchdog;
 
-		child = spawn(electronPath, args, {
-			stdio: ["pipe", "pipe", "pipe"],
-			env: { ...process.env },
+		const peer = createRpcPeer({
+			send: (line) => {
+				if (proc.stdin?.writable) proc.stdin.write(line + "\n");
+			},
+			onNotification: (method, params) => handleEvent(ctx, method, params),
 		});
+		rpc = peer;
 
-		startedAt = Date.now();
+		// Secrets travel over the private stdin pipe, never argv (visible in `ps`)
+		peer.notify("init", launchConfig);
 
-		child.stdout?.on("data", (data: Buffer) => {
-			const lines = data.toString().split("\n").filter(Boolean);
-			for (const line of lines) {
-				ctx.logger.info(`flawed-avatar: ${line}`);
-			}
-		});
+		// Stdout carries RPC frames mixed with Electron's own log lines
+		if (proc.stdout) {
+			readline.createInterface({ input: proc.stdout }).on("line", (line) => {
+				if (line.trim() && !peer.handleLine(line)) {
+					ctx.logger.info(`flawed-avatar: ${line}`);
+				}
+			});
+		}
 
-		child.stderr?.on("data", (data: Buffer) => {
+		proc.stderr?.on("data", (data: Buffer) => {
 			const lines = data.toString().split("\n").filter(Boolean);
 			for (const line of lines) {
 				ctx.logger.warn(`flawed-avatar: ${line}`);
 			}
+			// Kept for the crash report
+			stderrTail.push(...lines);
+			stderrTail.splice(0, stderrTail.length - STDERR_TAIL_LINES);
 		});
 
-		child.on("exit", (code, signal) => {
+		// A binary that can't be executed fails here, and may never emit "exit"
+		proc.on("error", (err) => {
+			if (proc.pid !== undefined || ended) return;
+			ended = true;
+			procWatchdog.stop();
+			if (watchdog === procWatchdog) watchdog = null;
 			child = null;
+			rpc = null;
+			peer.close("avatar failed to start");
+			ctx.logger.error(`flawed-avatar: cannot start Electron: ${err.message}`);
 			if (stopped) return;
+			scheduleRestart(ctx, { at: Date.now(), code: null, signal: null, error: err.message, uptimeMs: 0, stderr: [] });
+		});
 
-			ctx.logger.warn(`flawed-avatar: exited (code=${code}, signal=${signal}), scheduling restart`);
-
-			// Reset backoff if process ran long enough
-			if (startedAt && Date.now() - startedAt >= RESTART_RESET_MS) {
-				restartBackoffMs = RESTART_BASE_MS;
-			}
+		proc.on("exit", (code, signal) => {
+			if (ended) return;
+			ended = true;
+			procWatchdog.stop();
+			if (watchdog === procWatchdog) watchdog = null;
+			child = null;
+			rpc = null;
+			capabilities = null;
+			peer.close("avatar exited");
+			if (stopped) return;
 
-			restartTimer = setTimeout(() => {
-				if (!stopped) {
-					ctx.logger.info(`flawed-avatar: restarting (backoff=${restartBackoffMs}ms)`);
+			if (respawnPending) {
+				respawnPending = false;
+				// Our shutdown request, or the SIGTERM sent when it went unanswered; any other exit is a crash
+				if (code === 0 || signal === "SIGTERM") {
+					ctx.logger.info("flawed-avatar: restarting to apply config");
 					spawnElectron(ctx);
+					return;
 				}
-			}, restartBackoffMs);
+			}
 
-			restartBackoffMs = Math.min(restartBackoffMs * 2, RESTART_MAX_MS);
+			ctx.logger.warn(`flawed-avatar: exited (code=${code}, signal=${signal}), scheduling restart`);
+			scheduleRestart(ctx, {
+				at: Date.now(),
+				code,
+				signal,
+				uptimeMs: Date.now() - launchedAt,
+				stderr: [...stderrTail],
+			});
 		});
 
 		ctx.logger.info("flawed-avatar: started");
 	}
 
-	const service: OpenClawPluginService & { send: (msg: StdinMessage) => void } = {
+	function canDisplay(): boolean {
+		return process.platform !== "linux" || Boolean(process.env.DISPLAY || process.env.WAYLAND_DISPLAY);
+	}
+
+	function respawnElectron(ctx: OpenClawPluginServiceContext): void {
+		const proc = child;
+		if (!proc) {
+			spawnElectron(ctx);
+			return;
+		}
+		respawnPending = true;
+		request("shutdown").catch(() => proc.kill("SIGTERM"));
+	}
+
+	/** Diff an edited config against the live one and push what changed. */
+	function applyConfigChange(ctx: OpenClawPluginServiceContext, next: PluginConfig): void {
+		let validator: PluginConfigValidator;
+		try {
+			validator = createPluginConfigValidator(pluginDir);
+		} catch (err) {
+			ctx.logger.warn(`flawed-avatar: cannot read openclaw.plugin.json, ignoring config change: ${(err as Error).message}`);
+			return;
+		}
+
+		const accepted: PluginConfig = { ...pluginConfig };
+		const changed: string[] = [];
+		for (const key of diffPluginConfig(pluginConfig, next)) {
+			const value = next[key];
+			// A removed key always goes back to its default
+			const error = value === undefined ? null : validator.check(key, value);
+			if (error) {
+				ctx.logger.warn(`flawed-avatar: ignoring invalid config ${error}`);
+				continue;
+			}
+			if (value === undefined) delete accepted[key];
+			else accepted[key] = value;
+			changed.push(key);
+		}
+		if (changed.length === 0) return;
+		pluginConfig = accepted;
+		ctx.logger.info(`flawed-avatar: config changed (${changed.join(", ")})`);
+		if (changed.includes("watchdog")) watchdog?.configure(resolveWatchdogConfig(accepted.watchdog));
+
+		if (changed.includes("autoStart")) {
+			if (accepted.autoStart === false) {
+				ctx.logger.info("flawed-avatar: autoStart disabled; takes effect on the next gateway start");
+			} else if (!child && !restartTimer && !stopped && !breaker.isTripped() && canDisplay()) {
+				spawnElectron(ctx);
+				return;
+			}
+		}
+
+		// Not running: the next spawn reads the new config anyway
+		if (!child) return;
+
+		// JSON has no undefined: a removed key travels as null
+		const delta: Record<string, unknown> = {};
+		for (const key of LIVE_CONFIG_KEYS) {
+			if (changed.includes(key)) delta[key] = accepted[key] ?? null;
+		}
+		if (Object.keys(delta).length === 0) return;
+		request("applyConfig", delta as ConfigDelta).catch((err: Error) => {
+			ctx.logger.warn(`flawed-avatar: live config update failed (${err.message}), restarting`);
+			respawnElectron(ctx);
+		});
+	}
+
+	const service: FlawedAvatarService = {
 		id: "flawed-avatar",
 
 		start(ctx: OpenClawPluginServiceContext): void {
 			stopped = false;
+			serviceCtx = ctx;
+			// A fresh start deserves a fresh set of attempts
+			breaker.reset();
+			restartBackoffMs = RESTART_BASE_MS;
+
+			// Edits to openclaw.json apply without restarting the gateway
+			configWatcher?.close();
+			configWatcher = watchPluginConfig({
+				pluginId: service.id,
+				onChange: (next) => applyConfigChange(ctx, next),
+			});
 
-			const config = api.pluginConfig as Record<string, unknown> | undefined;
-			if (config?.autoStart === false) {
+			if (pluginConfig.autoStart === false) {
 				ctx.logger.info("flawed-avatar: autoStart disabled, skipping");
 				return;
 			}
 
 			// Skip on headless Linux
-			if (process.platform === "linux" && !process.env.DISPLAY && !process.env.WAYLAND_DISPLAY) {
+			if (!canDisplay()) {
 				ctx.logger.info("flawed-avatar: no display available, skipping");
 				return;
 			}
@@ -117,6 +394,9 @@ export function createFlawedAvatarService(api: OpenClawPluginApi) {
 
 		stop(ctx: OpenClawPluginServiceContext): Promise<void> {
 			stopped = true;
+			respawnPending = false;
+			configWatcher?.close();
+			configWatcher = null;
 
 			if (restartTimer) {
 				clearTimeout(restartTimer);
@@ -130,8 +410,10 @@ export function createFlawedAvatarService(api: OpenClawPluginApi) {
 			return new Promise<void>((resolve) => {
 				const proc = child!;
 
-				// Try graceful shutdown via stdin
-				send({ type: "shutdown" });
+				// Try graceful shutdown over RPC
+				request("shutdown").catch(() => {
+					// Already exiting, or not listening; the signals below take over
+				});
 
 				const forceKillTimer = setTimeout(() => {
 					if (proc.exitCode === null) {
@@ -140,23 +422,43 @@ export function createFlawedAvatarService(api: OpenClawPluginApi) {
 					}
 				}, 5_000);
 
+				// If graceful stdin didn't work, try SIGTERM after 3s
+				const termTimer = setTimeout(() => {
+					if (proc.exitCode === null) {
+						proc.kill("SIGTERM");
+					}
+				}, 3_000);
+
 				proc.once("exit", () => {
 					clearTimeout(forceKillTimer);
+					clearTimeout(termTimer);
 					child = null;
 					ctx.logger.info("flawed-avatar: stopped");
 					resolve();
 				});
-
-				// If graceful stdin didn't work, try SIGTERM after 3s
-				setTimeout(() => {
-					if (proc.exitCode === null) {
-						proc.kill("SIGTERM");
-					}
-				}, 3_000);
 			});
 		},
 
-		send,
+		request,
+
+		getCapabilities: () => capabilities,
+
+		getCrashReport: () => ({
+			paused: breaker.isTripped(),
+			path: CRASH_REPORT_PATH,
+			report: readCrashReport(),
+		}),
+
+		rearm(): boolean {
+			if (!breaker.isTripped()) return false;
+			breaker.reset();
+			restartBackoffMs = RESTART_BASE_MS;
+			if (serviceCtx && !stopped && !child) {
+				serviceCtx.logger.info("flawed-avatar: restarts resumed");
+				spawnElectron(serviceCtx);
+			}
+			return true;
+		},
 	};
 
 	return service;
@@ -1,5 +1,6 @@
 export const WINDOW_WIDTH = 300;
 export const WINDOW_HEIGHT = 500;
+export const SNAP_CORNERS = ["bottomRight", "bottomLeft", "topRight", "topLeft"] as const;
 
 // === Legacy File Names (for migration) ===
 export const WINDOW_POSITION_FILE = "flawed-avatar-position.json";
@@ -8,6 +9,9 @@ export const CAMERA_ZOOM_FILE = "flawed-avatar-camera.json";
 // === Persistence Files ===
 export const SETTINGS_FILE = "flawed-avatar-settings.json";
 export const CHAT_HISTORY_FILE = "flawed-avatar-chat.json";
+export const SENTIMENT_LEXICON_FILE = "flawed-avatar-sentiment.json"; // user-editable, read-only for us
+export const VRM_LIBRARY_DIR = "flawed-avatar-models"; // extra .vrm files, next to the bundled ones
+export const CRASH_REPORT_FILE = "flawed-avatar-crash-report.txt"; // written when the service stops restarting Electron
 
 // === Camera Settings ===
 export const CAMERA_ZOOM_MIN = 0.5;
@@ -36,6 +40,30 @@ export const LOCK_STALE_MS = 10000;
 export const GATEWAY_URL_DEFAULT = "ws://127.0.0.1:18789";
 export const GATEWAY_RECONNECT_BASE_MS = 3_000;
 export const GATEWAY_RECONNECT_MAX_MS = 30_000;
+export const GATEWAY_REQUEST_TIMEOUT_MS = 15_000;
+// While waiting for the operator to approve a new device, poll quicker than the backoff would
+export const GATEWAY_PAIRING_RETRY_MS = 5_000;
+export const GATEWAY_PROFILES_MAX = 20;
+export const GATEWAY_PROFILE_NAME_MAX = 64;
+// How long Electron waits for the plugin service's stdin launch config before going without
+export const LAUNCH_CONFIG_TIMEOUT_MS = 5_000;
+
+// === Plugin Commands ===
+export const COMMAND_EXPRESSION_HOLD_MS = 5_000; // before the phase expression takes over again
+export const RENDER_STATS_INTERVAL_MS = 2_000; // how often the avatar reports its frame rate
+export const LOOK_AT_HOLD_MS = 3_000; // before the gaze goes back to the cursor
+export const COMMAND_HOLD_MAX_MS = 60_000; // longest expression or look a command or tool may ask for
+
+// === Liveness Watchdog ===
+export const WATCHDOG_HEARTBEAT_MS = 5_000; // main process -> plugin service
+export const RENDERER_HEARTBEAT_MS = 2_000; // avatar renderer -> main process
+export const WATCHDOG_MAIN_TIMEOUT_MS = 30_000;
+export const WATCHDOG_RENDERER_TIMEOUT_MS = 15_000;
+export const WATCHDOG_MAX_RENDERER_RELOADS = 3; // within the window below; one more respawns Electron
+export const WATCHDOG_RELOAD_WINDOW_MS = 10 * 60_000;
+export const RENDERER_STARTUP_GRACE_MS = 30_000; // a fresh renderer may block while it parses the model
+export const RENDERER_RELOAD_DELAY_MS = 1_000;
+export const KOKORO_STALL_MS = 60_000; // one generate call taking longer means the worker is stuck
 
 // === Chat Window ===
 export const CHAT_WINDOW_WIDTH = 300;
@@ -48,6 +76,11 @@ export const CHAT_FADE_TRANSITION_MS = 300;
 export const CHAT_MAX_HISTORY = 200;
 export const CHAT_DOTS_INTERVAL_MS = 400;
 export const CHAT_INPUT_MAX_LENGTH = 4096;
+export const CHAT_HISTORY_PAGE_SIZE = 50; // messages per load, on open and per scroll back
+export const CHAT_HISTORY_FETCH_MAX = 1000; // chat.history limit cap; paging stops here
+export const CHAT_HISTORY_MATCH_WINDOW_MS = 5 * 60_000; // local copy vs transcript entry of the same message
+export const CHAT_HISTORY_SCROLL_THRESHOLD_PX = 40;
+export const REASONING_PREVIEW_MAX_CHARS = 80;
 
 // === UI Animation Timing ===
 export const TYPING_ANIMATION_MS = 1400;
@@ -80,6 +113,12 @@ export const SPEAKING_NOD_FREQ = 3.0;
 // === Animator: Working Tilt ===
 export const WORKING_TILT = 0.05;
 
+// === Animator: Pondering (while reasoning streams in) ===
+export const PONDER_TILT = 0.06; // side-to-side head roll at full activity (radians)
+export const PONDER_FREQ = 1.2;
+export const PONDER_CHARS_FULL = 400; // reasoning characters that bring activity to full
+export const PONDER_DECAY = 0.5; // activity lost per second without new reasoning
+
 // === Eye Saccades ===
 export const SACCADE_YAW_RANGE = 5; // ±degrees
 export const SACCADE_PITCH_RANGE = 3.75; // ±degrees
@@ -96,6 +135,23 @@ export const EXPRESSION_DURATION_HAPPY = 0.3;
 export const EXPRESSION_DURATION_NEUTRAL = 0.3;
 export const EXPRESSION_DURATION_SAD = 0.4;
 export const EXPRESSION_DURATION_RELAXED = 0.5;
+export const EXPRESSION_DURATION_ASKING = 0.3;
+
+// === Sentiment Expressions (tone of assistant speech) ===
+export const SENTIMENT_ENABLED_DEFAULT = true;
+export const SENTIMENT_STRENGTH_MIN = 0;
+export const SENTIMENT_STRENGTH_MAX = 1;
+export const SENTIMENT_STRENGTH_DEFAULT = 0.6;
+export const SENTIMENT_BLEND_RATE = 1.5; // overlay weight change per second
+export const SENTIMENT_MIN_SCORE = 1; // lexicon points a sentence needs to count
+export const SENTIMENT_LINGER_MS = 3_000; // reply tone held after the run ends
+
+// === Interrupted Reaction (after the user aborts a run) ===
+export const INTERRUPTED_STARTLE_MS = 400; // surprised flash
+export const INTERRUPTED_REACTION_MS = 1_600; // sad until back to neutral
+
+// === Error Reaction (after a run fails) ===
+export const ERROR_REACTION_MS = 6_000; // apologetic, then back to idle
 
 // === wLipSync ===
 export const WLIPSYNC_WINNER_CAP = 0.7;
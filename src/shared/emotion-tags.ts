@@ -0,0 +1,78 @@
+import type { AvatarExpression } from "./types.js";
+
+export const AVATAR_EXPRESSIONS: readonly AvatarExpression[] = [
+	"neutral", "happy", "sad", "angry", "surprised", "relaxed", "asking",
+];
+
+// Friendlier names agents tend to reach for
+const EXPRESSION_ALIASES: Record<string, AvatarExpression> = {
+	joy: "happy",
+	smile: "happy",
+	laugh: "happy",
+	upset: "sad",
+	mad: "angry",
+	surprise: "surprised",
+	shocked: "surprised",
+	calm: "relaxed",
+	curious: "asking",
+};
+
+/** One emotion tag found in assistant text, in order of appearance. */
+export type EmotionCue = {
+	expression?: AvatarExpression;
+	gesture?: string;
+};
+
+export type ParsedEmotionText = {
+	/** Text with all recognized tags (and a trailing half-streamed tag) removed. */
+	text: string;
+	cues: EmotionCue[];
+};
+
+// [happy]  [gesture:wave]  <emote name="angry"/>  <emote name="happy" gesture="wave" />
+// (trailing spaces go with the tag so "I am [sad] sorry" reads "I am sorry")
+const TAG_RE = /(?:\[(?:gesture:\s*([\w .-]+)|([a-z]+))\]|<emote\b([^>]*?)\/?>)[ \t]*/gi;
+const ATTR_RE = /(name|gesture)\s*=\s*"([^"]*)"/gi;
+// An unfinished tag at the very end of a streaming chunk (a finished reply may end like this legitimately)
+const PARTIAL_TAG_RE = /(?:\[(?:gesture:[\w .-]*|[a-z]*)|<(?:e(?:m(?:o(?:t(?:e\b[^>]*)?)?)?)?)?)$/i;
+
+export function resolveExpression(name: string): AvatarExpression | undefined {
+	const key = name.trim().toLowerCase();
+	if ((AVATAR_EXPRESSIONS as readonly string[]).includes(key)) return key as AvatarExpression;
+	return EXPRESSION_ALIASES[key];
+}
+
+/**
+ * Strip inline emotion markup from assistant text and return the cues in order.
+ * Bracket tags only count when they name a known expression, so citations
+ * like "[1]" or "[link]" stay in the text. While `streaming`, a tag cut off
+ * at the end is hidden until the rest of it arrives.
+ */
+export function parseEmotionTags(raw: string, options: { streaming?: boolean } = {}): ParsedEmotionText {
+	const cues: EmotionCue[] = [];
+
+	let text = raw.replace(TAG_RE, (match, gesture?: string, bare?: string, attrs?: string) => {
+		if (gesture !== undefined) {
+			cues.push({ gesture: gesture.trim() });
+			return "";
+		}
+		if (bare !== undefined) {
+			const expression = resolveExpression(bare);
+			if (!expression) return match;
+			cues.push({ expression });
+			return "";
+		}
+
+		const cue: EmotionCue = {};
+		for (const [, key, value] of (attrs ?? "").matchAll(ATTR_RE)) {
+			if (key.toLowerCase() === "name") cue.expression = resolveExpression(value);
+			else if (value.trim()) cue.gesture = value.trim();
+		}
+		if (cue.expression || cue.gesture) cues.push(cue);
+		return "";
+	});
+
+	if (options.streaming) text = text.replace(PARTIAL_TAG_RE, "");
+
+	return { text, cues };
+}
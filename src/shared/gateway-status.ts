@@ -0,0 +1,35 @@
+import type { GatewayStatus } from "./types.js";
+
+/** Seconds until the next automatic retry, or null when none is scheduled. */
+export function secondsUntilRetry(status: GatewayStatus, now: number = Date.now()): number | null {
+	if (status.nextRetryAt === undefined) return null;
+	return Math.max(0, Math.ceil((status.nextRetryAt - now) / 1000));
+}
+
+/** One-line human-readable summary shared by the tray, avatar and chat window. */
+export function describeGatewayStatus(status: GatewayStatus, now: number = Date.now()): string {
+	const retryIn = secondsUntilRetry(status, now);
+	const retryText = retryIn !== null ? ` (retrying in ${retryIn}s)` : "";
+
+	switch (status.state) {
+		case "connecting":
+			return "Connecting to gateway…";
+		case "handshaking":
+			return "Authenticating with gateway…";
+		case "pairing":
+			return status.pairingRequestId
+				? `Waiting for device approval: run "openclaw devices approve ${status.pairingRequestId}"${retryText}`
+				: `Waiting for this device to be approved on the gateway${retryText}`;
+		case "connected":
+			return "Connected to gateway";
+		case "auth-failed":
+			return `Gateway authentication failed${status.error ? `: ${status.error}` : ""}${retryText}`;
+		case "reconnecting":
+			return `Gateway unreachable${retryText}`;
+	}
+}
+
+/** Whether "retry now" makes sense for this status. */
+export function canRetryGateway(status: GatewayStatus): boolean {
+	return status.state === "reconnecting" || status.state === "auth-failed" || status.state === "pairing";
+}
@@ -10,7 +10,10 @@ export const IPC = {
 	SET_CAMERA_ZOOM: "avatar:set-camera-zoom",
 	AGENT_STATE: "avatar:agent-state",
 	GET_ANIMATIONS_CONFIG: "avatar:get-animations-config",
+	AGENT_APPEARANCE: "avatar:agent-appearance",
+	GET_AGENT_APPEARANCE: "avatar:get-agent-appearance",
 	SEND_CHAT: "avatar:send-chat",
+	ABORT_RUN: "avatar:abort-run",
 	TOGGLE_CHAT: "avatar:toggle-chat",
 	CHAT_VISIBILITY: "avatar:chat-visibility",
 
@@ -30,12 +33,39 @@ export const IPC = {
 	APPEND_CHAT_MESSAGE: "chat:append-message",
 	CLEAR_CHAT_HISTORY: "chat:clear-history",
 	CHAT_HISTORY_CLEARED: "chat:history-cleared",
+	CHAT_HISTORY_SYNCED: "chat:history-synced",
+	LOAD_OLDER_MESSAGES: "chat:load-older-messages",
+	// User turns from other clients
+	CHAT_TURN: "chat:turn",
 
 	// Idle timeout settings
 	GET_IDLE_TIMEOUT: "chat:get-idle-timeout",
 	SET_IDLE_TIMEOUT: "chat:set-idle-timeout",
 	IDLE_TIMEOUT_CHANGED: "chat:idle-timeout-changed",
 
+	// Gateway sessions
+	GET_SESSIONS: "chat:get-sessions",
+	SESSIONS_CHANGED: "chat:sessions-changed",
+	SET_SESSION_FOLLOW: "chat:set-session-follow",
+	REFRESH_SESSIONS: "chat:refresh-sessions",
+
+	// Gateway connection status
+	GATEWAY_STATUS: "gateway:status",
+	GET_GATEWAY_STATUS: "gateway:get-status",
+	RETRY_GATEWAY: "gateway:retry",
+
+	// Gateway profiles
+	GET_GATEWAY_PROFILES: "gateway:get-profiles",
+	SAVE_GATEWAY_PROFILE: "gateway:save-profile",
+	DELETE_GATEWAY_PROFILE: "gateway:delete-profile",
+	SWITCH_GATEWAY_PROFILE: "gateway:switch-profile",
+	GATEWAY_PROFILES_CHANGED: "gateway:profiles-changed",
+
+	// Exec approvals
+	GET_APPROVALS: "chat:get-approvals",
+	APPROVALS_CHANGED: "chat:approvals-changed",
+	RESOLVE_APPROVAL: "chat:resolve-approval",
+
 	// TTS settings
 	GET_TTS_ENABLED: "avatar:tts-get-enabled",
 	SET_TTS_ENABLED: "avatar:tts-set-enabled",
@@ -51,6 +81,13 @@ export const IPC = {
 	SET_TTS_VOICE: "avatar:tts-set-voice",
 	TTS_VOICE_CHANGED: "avatar:tts-voice-changed",
 
+	// Sentiment-driven expressions
+	GET_SENTIMENT_CONFIG: "avatar:sentiment-get-config",
+	SET_SENTIMENT_ENABLED: "avatar:sentiment-set-enabled",
+	SENTIMENT_ENABLED_CHANGED: "avatar:sentiment-enabled-changed",
+	SET_SENTIMENT_STRENGTH: "avatar:sentiment-set-strength",
+	SENTIMENT_STRENGTH_CHANGED: "avatar:sentiment-strength-changed",
+
 	// Debug logging from renderer to main
 	DEBUG_LOG: "avatar:debug-log",
 
@@ -62,6 +99,15 @@ export const IPC = {
 	// Snap position
 	SNAP_TO: "avatar:snap-to",
 
+	// Plugin commands
+	SET_EXPRESSION: "avatar:set-expression",
+	PLAY_GESTURE: "avatar:play-gesture",
+	SAY_TEXT: "avatar:say-text",
+	RENDER_STATS: "avatar:render-stats",
+	LOOK_AT: "avatar:look-at",
+	CAPABILITIES: "avatar:capabilities",
+	RENDERER_HEARTBEAT: "avatar:renderer-heartbeat",
+
 	// Settings window
 	OPEN_SETTINGS: "settings:open",
 	CLOSE_SETTINGS: "settings:close",
@@ -76,6 +122,7 @@ export const IPC = {
 	GET_LIGHTING_PROFILE: "avatar:get-lighting-profile",
 	SET_LIGHTING_PROFILE: "avatar:set-lighting-profile",
 	LIGHTING_PROFILE_CHANGED: "avatar:lighting-profile-changed",
+	GET_LIGHTING_CUSTOM: "avatar:get-lighting-custom",
 	SET_LIGHTING_CUSTOM: "avatar:set-lighting-custom",
 	LIGHTING_CUSTOM_CHANGED: "avatar:lighting-custom-changed",
 } as const;
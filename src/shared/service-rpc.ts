@@ -0,0 +1,268 @@
+import type {
+	AgentPhase,
+	AvatarCapabilities,
+	AvatarExpression,
+	GatewayStatus,
+	SnapCorner,
+	TtsEngine,
+} from "./types.js";
+
+/**
+ * JSON-RPC 2.0 between the plugin service and the Electron process, one frame
+ * per line: service -> Electron over stdin, Electron -> service over stdout.
+ * Stdout lines that aren't frames are ordinary log output.
+ */
+
+/**
+ * Secrets and bulky plugin config, sent by the service as the `init`
+ * notification so they never show up in the process list.
+ * Contents are validated by Electron.
+ */
+export type LaunchConfig = {
+	authToken?: string;
+	agentConfigs?: unknown;
+	toolActivities?: unknown;
+	watchdog?: unknown;
+};
+
+/** Snapshot the service can query (and that most requests report back). */
+export type AvatarRuntimeState = {
+	visible: boolean;
+	chatVisible: boolean;
+	phase: AgentPhase;
+	sessionKey: string | null;
+	gateway: GatewayStatus;
+	/** Model the renderer last reported as loaded (null before its first report). */
+	vrmPath: string | null;
+	fps: number | null;
+	tts: { enabled: boolean; engine: TtsEngine; voice: string };
+	opacity: number;
+};
+
+/** A .vrm file in the bundled or user model directory. */
+export type AvatarModel = {
+	name: string;
+	path: string;
+};
+
+/**
+ * Plugin config keys that changed while Electron was running.
+ * Null means the key was removed and falls back to its default.
+ */
+export type ConfigDelta = {
+	gatewayUrl?: string | null;
+	vrmPath?: string | null;
+	agents?: unknown;
+	toolActivities?: unknown;
+	watchdog?: unknown;
+};
+
+/** Main process vitals, sent every WATCHDOG_HEARTBEAT_MS while its event loop runs. */
+export type AvatarHeartbeat = {
+	uptimeMs: number;
+	rssMb: number;
+	/** Since the avatar renderer's last heartbeat; null before its first. */
+	rendererBeatAgoMs: number | null;
+};
+
+/** A renderer that crashed or stopped responding, and what main knew about it at the time. */
+export type RendererIncident = AvatarHeartbeat & {
+	window: "avatar" | "chat";
+	reason: string;
+	fps: number | null;
+	vrmPath: string | null;
+};
+
+/** Where `lookAt` points the avatar: a screen point, its own chat window, or back at the cursor. */
+export type LookAtTarget =
+	| { x: number; y: number }
+	| { window: "chat" | "cursor" };
+
+/** Requests the service sends to Electron. */
+export type AvatarRpcMethods = {
+	show: { params: undefined; result: AvatarRuntimeState };
+	hide: { params: undefined; result: AvatarRuntimeState };
+	getState: { params: undefined; result: AvatarRuntimeState };
+	/** `model` is a .vrm path or a library name. */
+	switchModel: { params: { model: string }; result: { vrmPath: string } };
+	listModels: { params: undefined; result: AvatarModel[] };
+	getCapabilities: { params: undefined; result: AvatarCapabilities };
+	setExpression: { params: { expression: AvatarExpression; holdMs?: number }; result: null };
+	playGesture: { params: { name: string }; result: null };
+	lookAt: { params: LookAtTarget & { holdMs?: number }; result: null };
+	setTts: { params: { enabled?: boolean; engine?: TtsEngine; voice?: string }; result: AvatarRuntimeState };
+	say: { params: { text: string }; result: null };
+	snapTo: { params: { corner: SnapCorner }; result: null };
+	setOpacity: { params: { opacity: number }; result: AvatarRuntimeState };
+	/** Returns the keys that were applied. */
+	applyConfig: { params: ConfigDelta; result: { applied: string[] } };
+	shutdown: { params: undefined; result: null };
+};
+
+/** Notifications Electron sends to the service. */
+export type AvatarRpcEvents = {
+	ready: { pid: number };
+	visibilityChanged: { visible: boolean };
+	gatewayStatus: GatewayStatus;
+	/** Sent whenever the model or its animation clips change. */
+	capabilities: AvatarCapabilities;
+	error: { source: string; message: string };
+	heartbeat: AvatarHeartbeat;
+	/** The window has been reloaded; the service decides whether to respawn instead. */
+	rendererRecovered: RendererIncident;
+};
+
+export const RPC_ERROR = {
+	METHOD_NOT_FOUND: -32601,
+	INVALID_PARAMS: -32602,
+	INTERNAL: -32603,
+	/** Peer went away before answering (not a JSON-RPC standard code). */
+	DISCONNECTED: -32000,
+	TIMEOUT: -32001,
+} as const;
+
+export const RPC_REQUEST_TIMEOUT_MS = 10_000;
+
+type RpcErrorObject = { code: number; message: string };
+
+type RpcFrame = {
+	jsonrpc: "2.0";
+	id?: number | string | null;
+	method?: string;
+	params?: unknown;
+	result?: unknown;
+	error?: RpcErrorObject;
+};
+
+export class RpcError extends Error {
+	constructor(
+		message: string,
+		readonly code: number,
+	) {
+		super(message);
+		this.name = "RpcError";
+	}
+}
+
+export interface RpcPeerOptions {
+	/** Write one serialized frame; the transport adds the newline. */
+	send: (line: string) => void;
+	/** Answer a request; throw an RpcError to pick the error code. */
+	onRequest?: (method: string, params: unknown) => unknown;
+	onNotification?: (method: string, params: unknown) => void;
+}
+
+export interface RpcPeer {
+	request<T = unknown>(method: string, params?: unknown, timeoutMs?: number): Promise<T>;
+	notify(method: string, params?: unknown): void;
+	/** Feed one received line; returns false when it wasn't a JSON-RPC frame. */
+	handleLine(line: string): boolean;
+	/** Reject everything in flight (the other side exited). */
+	close(reason: string): void;
+}
+
+function parseFrame(line: string): RpcFrame | null {
+	const trimmed = line.trim();
+	if (!trimmed.startsWith("{")) return null;
+	try {
+		const parsed = JSON.parse(trimmed);
+		return parsed?.jsonrpc === "2.0" ? parsed as RpcFrame : null;
+	} catch {
+		return null;
+	}
+}
+
+export function createRpcPeer(options: RpcPeerOptions): RpcPeer {
+	const { send, onRequest, onNotification } = options;
+	let nextId = 1;
+	const pending = new Map<number, {
+		resolve: (value: unknown) => void;
+		reject: (err: Error) => void;
+		timer: ReturnType<typeof setTimeout>;
+	}>();
+
+	function write(frame: RpcFrame): void {
+		send(JSON.stringify(frame));
+	}
+
+	function respond(id: number | string, result: unknown): void {
+		write({ jsonrpc: "2.0", id, result: result ?? null });
+	}
+
+	function respondError(id: number | string, err: unknown): void {
+		const code = err instanceof RpcError ? err.code : RPC_ERROR.INTERNAL;
+		const message = err instanceof Error ? err.message : String(err);
+		write({ jsonrpc: "2.0", id, error: { code, message } });
+	}
+
+	function handleRequest(id: number | string, method: string, params: unknown): void {
+		if (!onRequest) {
+			respondError(id, new RpcError(`unknown method ${method}`, RPC_ERROR.METHOD_NOT_FOUND));
+			return;
+		}
+		try {
+			Promise.resolve(onRequest(method, params)).then(
+				(result) => respond(id, result),
+				(err) => respondError(id, err),
+			);
+		} catch (err) {
+			respondError(id, err);
+		}
+	}
+
+	function handleResponse(frame: RpcFrame): void {
+		if (typeof frame.id !== "number") return;
+		const entry = pending.get(frame.id);
+		if (!entry) return;
+		pending.delete(frame.id);
+		clearTimeout(entry.timer);
+		if (frame.error) {
+			entry.reject(new RpcError(frame.error.message, frame.error.code));
+		} else {
+			entry.resolve(frame.result);
+		}
+	}
+
+	return {
+		request<T>(method: string, params?: unknown, timeoutMs = RPC_REQUEST_TIMEOUT_MS): Promise<T> {
+			const id = nextId++;
+			return new Promise<T>((resolve, reject) => {
+				const timer = setTimeout(() => {
+					pending.delete(id);
+					reject(new RpcError(`${method} timed out after ${timeoutMs}ms`, RPC_ERROR.TIMEOUT));
+				}, timeoutMs);
+				pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer });
+				write({ jsonrpc: "2.0", id, method, params });
+			});
+		},
+
+		notify(method: string, params?: unknown) {
+			write({ jsonrpc: "2.0", method, params });
+		},
+
+		handleLine(line: string): boolean {
+			const frame = parseFrame(line);
+			if (!frame) return false;
+
+			if (typeof frame.method === "string") {
+				// A request carries an id; a notification doesn't
+				if (frame.id === undefined || frame.id === null) {
+					onNotification?.(frame.method, frame.params);
+				} else {
+					handleRequest(frame.id, frame.method, frame.params);
+				}
+			} else if (frame.id !== undefined) {
+				handleResponse(frame);
+			}
+			return true;
+		},
+
+		close(reason: string) {
+			for (const [, entry] of pending) {
+				clearTimeout(entry.timer);
+				entry.reject(new RpcError(reason, RPC_ERROR.DISCONNECTED));
+			}
+			pending.clear();
+		},
+	};
+}
@@ -1,7 +1,225 @@
-export type AgentPhase = "idle" | "thinking" | "speaking" | "working";
+export type AgentPhase = "idle" | "thinking" | "speaking" | "working" | "error";
+
+/** Expression names the main process can request (mirrors the renderer's Expression). */
+export type AvatarExpression = "neutral" | "happy" | "sad" | "angry" | "surprised" | "relaxed" | "asking";
+
+/** User additions to the sentiment lexicon: word -> expression it evokes and how strongly. */
+export type SentimentLexicon = Record<string, { expression: AvatarExpression; weight: number }>;
+
+export type SentimentConfig = {
+	enabled: boolean;
+	/** 0..1 multiplier on the blended expression. */
+	strength: number;
+	lexicon: SentimentLexicon;
+};
+
+/** How the avatar presents a tool while it runs, resolved from the tool mapping. */
+export type ToolActivity = {
+	/** Short status caption, e.g. "Running a command". */
+	caption: string;
+	/** Animation clip name (FBX file name without extension) to prefer while the tool runs. */
+	clip?: string;
+	expression?: AvatarExpression;
+};
+
+export type ToolStatus = "running" | "done" | "error";
+
+export type ToolState = {
+	/** Gateway tool call id, when the gateway provides one. */
+	callId?: string;
+	name: string;
+	status: ToolStatus;
+	/** Short human-readable summary of the arguments (command, query, path...). */
+	args?: string;
+	startedAt: number;
+	/** Set once the tool has finished. */
+	durationMs?: number;
+	activity?: ToolActivity;
+};
 
 export type AgentState = {
 	phase: AgentPhase;
 	text?: string;
 	agentId?: string;
+	/** Gateway run that produced this state. */
+	runId?: string;
+	/** Set on the idle state that follows a user-requested abort. */
+	interrupted?: boolean;
+	/** Tool the agent is running (working phase only). */
+	tool?: ToolState;
+	/** Latest emotion tag of the current reply (speaking phase only). */
+	expression?: AvatarExpression;
+	/** One-shot gesture clips requested by tags new in this update. */
+	gestures?: string[];
+	/** Reasoning the model streamed so far in this run (thinking phase only). */
+	reasoning?: string;
+	/** Why the run failed (error phase only). */
+	error?: string;
+};
+
+export type TtsEngine = "web-speech" | "kokoro";
+
+export type SnapCorner = "bottomRight" | "bottomLeft" | "topRight" | "topLeft";
+
+/** What the loaded model can do, as reported by the avatar renderer. */
+export type AvatarCapabilities = {
+	expressions: AvatarExpression[];
+	/** Clip names usable as gestures (file names without .fbx). */
+	gestures: string[];
+};
+
+/** Screen point for the avatar to look at, with the work area size it is relative to. */
+export type GazeTarget = {
+	x: number;
+	y: number;
+	screenWidth: number;
+	screenHeight: number;
+};
+
+/** A user message another client (CLI, web UI, another overlay) sent to a followed session. */
+export type RemoteChatTurn = {
+	sessionKey: string;
+	text: string;
+	/** Display name of the sending client. */
+	source: string;
+	timestamp: number;
+};
+
+/** One message of a session transcript, local or fetched from the gateway. */
+export type TranscriptMessage = {
+	id: string;
+	timestamp: number;
+	role: "user" | "assistant";
+	text: string;
+	/** Sending client, for user messages that came from elsewhere. */
+	source?: string;
+};
+
+/** A slice of one session's chat history, oldest first. */
+export type ChatHistoryPage = {
+	sessionKey: string;
+	messages: TranscriptMessage[];
+	/** Older messages exist before the first one. */
+	hasMore: boolean;
+};
+
+/** Liveness watchdog settings from the plugin config, defaults filled in. */
+export type WatchdogConfig = {
+	enabled: boolean;
+	/** Main process heartbeat silence before the service kills Electron. */
+	mainTimeoutMs: number;
+	/** Avatar renderer heartbeat silence before its window is reloaded. */
+	rendererTimeoutMs: number;
+	/** Renderer reloads tolerated per WATCHDOG_RELOAD_WINDOW_MS before a full respawn. */
+	maxRendererReloads: number;
+};
+
+/** What the avatar renderer periodically reports about itself. */
+export type RenderStats = {
+	fps: number;
+	vrmPath: string;
+};
+
+/**
+ * Effective look-and-sound of the avatar for the active session.
+ * Per-agent overrides from plugin config, falling back to persisted settings.
+ */
+export type AgentAppearance = {
+	sessionKey: string | null;
+	vrmPath: string;
+	ttsEngine: TtsEngine;
+	ttsVoice: string;
+	scale: number;
+	lightingProfile: string;
+	cameraZoom: number;
+	/** Custom animation directory, or null for the bundled clips. */
+	animationsDir: string | null;
+	animations: Record<AgentPhase, string[]>;
+};
+
+/**
+ * Which gateway sessions drive the avatar and receive chat:
+ * "recent" follows whichever session was last active, "pinned" sticks to one
+ * session, "allowlist" only follows sessions in the list.
+ */
+export type SessionFollowMode = "recent" | "pinned" | "allowlist";
+
+export type SessionFollow = {
+	mode: SessionFollowMode;
+	pinnedSessionKey: string | null;
+	allowlist: string[];
+};
+
+export type SessionInfo = {
+	key: string;
+	displayName?: string;
+	agentId?: string;
+	updatedAt?: number;
+};
+
+export type SessionsSnapshot = {
+	sessions: SessionInfo[];
+	currentSessionKey: string | null;
+	follow: SessionFollow;
+};
+
+export type GatewayConnectionState = "connecting" | "handshaking" | "pairing" | "connected" | "auth-failed" | "reconnecting";
+
+export type GatewayStatus = {
+	state: GatewayConnectionState;
+	gatewayUrl: string;
+	/** Epoch ms of the next automatic connection attempt (pairing / reconnecting / auth-failed). */
+	nextRetryAt?: number;
+	/** Last error reported by the socket or the gateway. */
+	error?: string;
+	/** Pending pairing request the operator has to approve (pairing). */
+	pairingRequestId?: string;
+};
+
+/**
+ * Where a gateway profile's auth token comes from: "openclaw" resolves it like
+ * the built-in gateway (plugin config, OPENCLAW_GATEWAY_TOKEN, openclaw.json),
+ * "env" reads an environment variable, "file" the first line of a file, and
+ * "none" relies on the device token alone.
+ */
+export type GatewayTokenSource = "openclaw" | "env" | "file" | "none";
+
+/** A named gateway the overlay can switch to. */
+export type GatewayProfile = {
+	id: string;
+	name: string;
+	url: string;
+	tokenSource: GatewayTokenSource;
+	/** Environment variable name ("env") or file path ("file"). */
+	tokenRef: string;
+	/** PEM file with extra CA certificates to trust for wss:// (empty: system CAs only). */
+	caFile: string;
+	/** Accept certificates that fail verification, e.g. self-signed ones. */
+	allowInsecureTls: boolean;
+};
+
+export type GatewayProfilesSnapshot = {
+	profiles: GatewayProfile[];
+	/** null selects the built-in gateway (--gateway-url, plugin config or the default URL). */
+	activeProfileId: string | null;
+	builtinUrl: string;
+};
+
+/** Outcome of a gateway action (chat.send, chat.abort), reported back to the renderer. */
+export type GatewayActionResult = { ok: true } | { ok: false; error: string };
+
+/** Operator decision for an exec approval request. */
+export type ApprovalDecision = "allow-once" | "allow-always" | "deny";
+
+/** A command an agent wants to run that needs operator approval. */
+export type ApprovalRequest = {
+	id: string;
+	command: string;
+	cwd?: string;
+	host?: string;
+	agentId?: string;
+	sessionKey?: string;
+	createdAt: number;
+	/** Epoch ms after which the gateway stops waiting for a decision. */
+	expiresAt?: number;
 };
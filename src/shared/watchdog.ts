@@ -0,0 +1,30 @@
+import type { WatchdogConfig } from "./types.js";
+import {
+	WATCHDOG_MAIN_TIMEOUT_MS,
+	WATCHDOG_MAX_RENDERER_RELOADS,
+	WATCHDOG_RENDERER_TIMEOUT_MS,
+} from "./config.js";
+
+function positive(value: unknown, fallback: number): number {
+	return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** The plugin config's `watchdog` entry with defaults for anything unset or malformed. */
+export function resolveWatchdogConfig(raw: unknown): WatchdogConfig {
+	const config = typeof raw === "object" && raw !== null ? raw as Record<string, unknown> : {};
+	return {
+		enabled: config.enabled !== false,
+		mainTimeoutMs: positive(config.mainTimeoutMs, WATCHDOG_MAIN_TIMEOUT_MS),
+		rendererTimeoutMs: positive(config.rendererTimeoutMs, WATCHDOG_RENDERER_TIMEOUT_MS),
+		maxRendererReloads: Math.floor(positive(config.maxRendererReloads, WATCHDOG_MAX_RENDERER_RELOADS)),
+	};
+}
+
+/** "45s", "12m 3s", "2h 5m". */
+export function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000);
+	if (seconds < 60) return `${seconds}s`;
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+	return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,147 @@
+import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
+import type { FlawedAvatarService } from "./service.js";
+import type { LookAtTarget } from "./shared/service-rpc.js";
+import type { AvatarCapabilities } from "./shared/types.js";
+import { COMMAND_HOLD_MAX_MS } from "./shared/config.js";
+
+type ToolResult = {
+	content: Array<{ type: "text"; text: string }>;
+	details?: unknown;
+};
+
+type AvatarTool = {
+	name: string;
+	label: string;
+	description: string;
+	/** JSON Schema for the arguments. */
+	parameters: Record<string, unknown>;
+	execute(toolCallId: string, params: Record<string, unknown>): Promise<ToolResult>;
+};
+
+const TOOL_NAMES = ["avatar_emote", "avatar_gesture", "avatar_look_at", "avatar_say"];
+
+const MAX_SECONDS = COMMAND_HOLD_MAX_MS / 1000;
+
+function textResult(text: string): ToolResult {
+	return { content: [{ type: "text", text }] };
+}
+
+function secondsToMs(value: unknown): number | undefined {
+	return typeof value === "number" && value > 0 ? Math.min(value, MAX_SECONDS) * 1000 : undefined;
+}
+
+/**
+ * Tools for the current model: expressions it has blend shapes for and the
+ * clips that loaded. Rebuilt for every agent run, so a model switch shows up
+ * on the next turn.
+ */
+function buildAvatarTools(service: FlawedAvatarService, capabilities: AvatarCapabilities): AvatarTool[] {
+	const secondsSchema = {
+		type: "number",
+		minimum: 0.5,
+		maximum: MAX_SECONDS,
+		description: "How long to hold it, in seconds",
+	};
+
+	const tools: AvatarTool[] = [
+		{
+			name: "avatar_emote",
+			label: "Avatar expression",
+			description: "Show a facial expression on your desktop avatar for a few seconds.",
+			parameters: {
+				type: "object",
+				properties: {
+					expression: { type: "string", enum: capabilities.expressions },
+					seconds: secondsSchema,
+				},
+				required: ["expression"],
+				additionalProperties: false,
+			},
+			async execute(_toolCallId, params) {
+				const expression = params.expression as AvatarCapabilities["expressions"][number];
+				await service.request("setExpression", { expression, holdMs: secondsToMs(params.seconds) });
+				return textResult(`Avatar is showing ${expression}`);
+			},
+		},
+		{
+			name: "avatar_look_at",
+			label: "Avatar gaze",
+			description:
+				"Point your desktop avatar's eyes and head at a screen position (x, y in pixels), "
+				+ "at its chat window, or back at the user's cursor.",
+			parameters: {
+				type: "object",
+				properties: {
+					x: { type: "number", description: "Screen x in pixels" },
+					y: { type: "number", description: "Screen y in pixels" },
+					window: { type: "string", enum: ["chat", "cursor"], description: "Look at a window instead of a point" },
+					seconds: secondsSchema,
+				},
+				additionalProperties: false,
+			},
+			async execute(_toolCallId, params) {
+				let target: LookAtTarget;
+				if (params.window === "chat" || params.window === "cursor") {
+					target = { window: params.window };
+				} else if (typeof params.x === "number" && typeof params.y === "number") {
+					target = { x: params.x, y: params.y };
+				} else {
+					throw new Error("give x and y, or window");
+				}
+				await service.request("lookAt", { ...target, holdMs: secondsToMs(params.seconds) });
+				return textResult("window" in target ? `Avatar is looking at the ${target.window}` : `Avatar is looking at ${target.x},${target.y}`);
+			},
+		},
+		{
+			name: "avatar_say",
+			label: "Avatar speech",
+			description:
+				"Say something out loud through your desktop avatar. "
+				+ "The words are spoken only and are not added to the chat transcript.",
+			parameters: {
+				type: "object",
+				properties: {
+					text: { type: "string", minLength: 1 },
+				},
+				required: ["text"],
+				additionalProperties: false,
+			},
+			async execute(_toolCallId, params) {
+				if (typeof params.text !== "string" || !params.text.trim()) throw new Error("text is required");
+				await service.request("say", { text: params.text });
+				return textResult("Avatar is speaking");
+			},
+		},
+	];
+
+	// No clips loaded means the avatar runs on procedural motion only
+	if (capabilities.gestures.length > 0) {
+		tools.push({
+			name: "avatar_gesture",
+			label: "Avatar gesture",
+			description: "Play a one-shot body animation on your desktop avatar.",
+			parameters: {
+				type: "object",
+				properties: {
+					name: { type: "string", enum: capabilities.gestures },
+				},
+				required: ["name"],
+				additionalProperties: false,
+			},
+			async execute(_toolCallId, params) {
+				await service.request("playGesture", { name: String(params.name) });
+				return textResult(`Avatar is playing ${String(params.name)}`);
+			},
+		});
+	}
+
+	return tools;
+}
+
+/** Agent tools that let the model drive its avatar; offered only while the avatar runs. */
+export function registerAvatarTools(api: OpenClawPluginApi, service: FlawedAvatarService): void {
+	api.registerTool(() => {
+		const capabilities = service.getCapabilities();
+		return capabilities ? buildAvatarTools(service, capabilities) : null;
+	}, { names: TOOL_NAMES });
+}
@@ -0,0 +1,81 @@
+import * as path from "node:path";
+import type { AvatarHeartbeat, RendererIncident } from "./shared/service-rpc.js";
+import type { WatchdogConfig } from "./shared/types.js";
+import { WATCHDOG_HEARTBEAT_MS, WATCHDOG_RELOAD_WINDOW_MS } from "./shared/config.js";
+import { formatDuration } from "./shared/watchdog.js";
+
+export interface ElectronWatchdog {
+	/** Main process proof of life; the hang check starts with the first one. */
+	heartbeat(beat: AvatarHeartbeat): void;
+	/**
+	 * Count a renderer reload. Returns a diagnostic line for the log and whether
+	 * reloads keep failing and Electron should be respawned instead.
+	 */
+	rendererRecovered(incident: RendererIncident): { summary: string; respawn: boolean };
+	configure(config: WatchdogConfig): void;
+	stop(): void;
+}
+
+function describeVitals(vitals: AvatarHeartbeat): string {
+	const beat = vitals.rendererBeatAgoMs === null
+		? "no renderer heartbeat yet"
+		: `renderer heartbeat ${formatDuration(vitals.rendererBeatAgoMs)} ago`;
+	return `up ${formatDuration(vitals.uptimeMs)}, rss ${vitals.rssMb} MB, ${beat}`;
+}
+
+/**
+ * Watches one Electron process: kills it when its main process stops sending
+ * heartbeats, and tracks renderer reloads so repeated failures escalate.
+ */
+export function createElectronWatchdog(options: {
+	pid: number | undefined;
+	config: WatchdogConfig;
+	/** The main process went silent; gets a diagnostic line for the log. */
+	onUnresponsive: (summary: string) => void;
+}): ElectronWatchdog {
+	const { pid, onUnresponsive } = options;
+	let config = options.config;
+	let lastBeat: AvatarHeartbeat | null = null;
+	let lastBeatAt = 0;
+	let reloads: number[] = [];
+
+	const timer = setInterval(() => {
+		if (!config.enabled || !lastBeat) return;
+		const silentMs = Date.now() - lastBeatAt;
+		if (silentMs <= config.mainTimeoutMs) return;
+		clearInterval(timer);
+		onUnresponsive(
+			`main process (pid ${pid}) sent no heartbeat for ${formatDuration(silentMs)}; `
+			+ `last seen ${describeVitals(lastBeat)}`,
+		);
+	}, WATCHDOG_HEARTBEAT_MS);
+
+	return {
+		heartbeat(beat) {
+			lastBeat = beat;
+			lastBeatAt = Date.now();
+		},
+
+		rendererRecovered(incident) {
+			const now = Date.now();
+			reloads = reloads.filter((at) => now - at < WATCHDOG_RELOAD_WINDOW_MS);
+			reloads.push(now);
+			const respawn = config.enabled && reloads.length > config.maxRendererReloads;
+			const windowMin = Math.round(WATCHDOG_RELOAD_WINDOW_MS / 60_000);
+			const model = incident.vrmPath ? path.basename(incident.vrmPath) : "no model";
+			const fps = incident.fps === null ? "no frames" : `${incident.fps} fps`;
+			const summary = `${incident.window} renderer ${incident.reason}; `
+				+ `${reloads.length} failure(s) in ${windowMin} min (limit ${config.maxRendererReloads}); `
+				+ `pid ${pid}, ${describeVitals(incident)}, ${fps}, ${model}`;
+			return { summary, respawn };
+		},
+
+		configure(next) {
+			config = next;
+		},
+
+		stop() {
+			clearInterval(timer);
+		},
+	};
+}